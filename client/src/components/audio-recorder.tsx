@@ -0,0 +1,114 @@
+import { Button } from "@/components/ui/button";
+import { useAudioRecorder, MAX_RECORDING_SECONDS } from "@/hooks/use-audio-recorder";
+import { formatElapsed, formatFileSize } from "@/lib/file-utils";
+import { cn } from "@/lib/utils";
+
+interface AudioRecorderProps {
+  onRecordingReady: (file: File) => void;
+  disabled?: boolean;
+}
+
+export function AudioRecorder({ onRecordingReady, disabled = false }: AudioRecorderProps) {
+  const { state, elapsed, level, recording, error, reachedLimit, start, pause, resume, stop, discard } =
+    useAudioRecorder();
+
+  const isActive = state === 'recording' || state === 'paused';
+
+  const handleUseRecording = () => {
+    if (recording) {
+      onRecordingReady(recording.file);
+      discard();
+    }
+  };
+
+  return (
+    <div className="border-2 border-dashed border-gray-300 rounded-lg p-8" data-testid="recorder">
+      <div className="flex flex-col items-center">
+        <div
+          className={cn(
+            "w-16 h-16 rounded-full flex items-center justify-center mb-4",
+            state === 'recording' ? "bg-red-500 animate-pulse" : "bg-gray-100"
+          )}
+        >
+          <svg
+            className={cn("w-8 h-8", state === 'recording' ? "text-white" : "text-gray-400")}
+            viewBox="0 0 24 24"
+            fill="currentColor"
+          >
+            <path d="M12,2A3,3 0 0,1 15,5V11A3,3 0 0,1 12,14A3,3 0 0,1 9,11V5A3,3 0 0,1 12,2M19,11C19,14.53 16.39,17.44 13,17.93V21H11V17.93C7.61,17.44 5,14.53 5,11H7A5,5 0 0,0 12,16A5,5 0 0,0 17,11H19Z"/>
+          </svg>
+        </div>
+
+        <p className="text-2xl font-mono text-gray-900" data-testid="text-recording-time">
+          {formatElapsed(elapsed)}
+        </p>
+        <p className="text-xs text-secondary mb-4">
+          {state === 'paused' ? 'Gravação pausada' : `Máximo de ${formatElapsed(MAX_RECORDING_SECONDS)}`}
+        </p>
+
+        {isActive && (
+          <div className="w-full max-w-xs bg-gray-200 rounded-full h-2 mb-4" data-testid="recording-level">
+            <div
+              className="h-2 rounded-full bg-success transition-all duration-75"
+              style={{ width: `${Math.round(level * 100)}%` }}
+            />
+          </div>
+        )}
+
+        {error && (
+          <p className="text-sm text-error mb-4 text-center" data-testid="text-recording-error">{error}</p>
+        )}
+
+        {reachedLimit && state === 'stopped' && (
+          <p className="text-sm text-warning mb-4 text-center">
+            A gravação foi encerrada ao atingir o tempo máximo.
+          </p>
+        )}
+
+        {recording && (
+          <div className="w-full max-w-md space-y-2 mb-4">
+            <audio src={recording.url} controls className="w-full" data-testid="audio-recording-preview" />
+            <p className="text-xs text-secondary text-center">
+              {recording.file.name} · {formatFileSize(recording.file.size)}
+            </p>
+          </div>
+        )}
+
+        <div className="flex space-x-3">
+          {(state === 'idle' || state === 'requesting') && (
+            <Button onClick={start} disabled={disabled || state === 'requesting'} data-testid="button-start-recording">
+              {state === 'requesting' ? 'Aguardando microfone...' : 'Gravar'}
+            </Button>
+          )}
+
+          {state === 'recording' && (
+            <Button variant="outline" onClick={pause} data-testid="button-pause-recording">
+              Pausar
+            </Button>
+          )}
+          {state === 'paused' && (
+            <Button variant="outline" onClick={resume} data-testid="button-resume-recording">
+              Retomar
+            </Button>
+          )}
+          {isActive && (
+            <Button onClick={stop} data-testid="button-stop-recording">
+              Parar
+            </Button>
+          )}
+
+          {state === 'stopped' && recording && (
+            <>
+              <Button onClick={handleUseRecording} disabled={disabled} data-testid="button-use-recording">
+                Usar gravação
+              </Button>
+              <Button variant="outline" onClick={discard} data-testid="button-discard-recording">
+                Descartar
+              </Button>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
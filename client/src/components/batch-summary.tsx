@@ -0,0 +1,92 @@
+import { Link } from "wouter";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader } from "@/components/ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import type { QueueItem } from "@/hooks/use-upload-queue";
+
+interface BatchSummaryProps {
+  items: QueueItem[];
+  onNewTranscription: () => void;
+}
+
+export function BatchSummary({ items, onNewTranscription }: BatchSummaryProps) {
+  const completed = items.filter((item) => item.result);
+  const partial = completed.filter((item) => item.result?.status === 'partial');
+  const failed = items.filter((item) => !item.result);
+  const totalWords = completed.reduce((sum, item) => sum + (item.result?.wordCount ?? 0), 0);
+
+  return (
+    <div className="mb-8" data-testid="batch-summary">
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <div>
+              <h2 className="text-lg font-medium text-gray-900">Lote Concluído</h2>
+              <p className="text-sm text-secondary mt-1" data-testid="text-batch-counts">
+                {completed.length} de {items.length} arquivos transcritos
+                {partial.length > 0 && ` · ${partial.length} com segmentos faltando`}
+                {failed.length > 0 && ` · ${failed.length} com falha`}
+                {` · ${totalWords} palavras no total`}
+              </p>
+            </div>
+            <Button onClick={onNewTranscription} data-testid="button-new-transcription">
+              Nova Transcrição
+            </Button>
+          </div>
+        </CardHeader>
+
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Arquivo</TableHead>
+                <TableHead>Situação</TableHead>
+                <TableHead className="text-right">Palavras</TableHead>
+                <TableHead />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {items.map((item) => (
+                <TableRow key={item.id} data-testid={`row-batch-${item.id}`}>
+                  <TableCell className="font-medium">{item.file.name}</TableCell>
+                  <TableCell>
+                    {!item.result ? (
+                      <div className="space-y-1">
+                        <Badge variant="destructive">Falhou</Badge>
+                        <p className="text-xs text-error">{item.error}</p>
+                      </div>
+                    ) : item.result.status === 'partial' ? (
+                      <Badge variant="outline" className="text-warning border-warning">Parcial</Badge>
+                    ) : (
+                      <Badge variant="secondary">Concluída</Badge>
+                    )}
+                  </TableCell>
+                  <TableCell className="text-right">{item.result?.wordCount ?? '—'}</TableCell>
+                  <TableCell className="text-right">
+                    {item.result && (
+                      <Link
+                        href={`/history/${item.result.id}`}
+                        className="text-sm font-medium text-primary hover:underline"
+                        data-testid={`link-transcription-${item.id}`}
+                      >
+                        Ver transcrição
+                      </Link>
+                    )}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
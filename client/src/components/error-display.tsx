@@ -8,8 +8,8 @@ interface ErrorDisplayProps {
 
 export function ErrorDisplay({ error, onTryAgain }: ErrorDisplayProps) {
   const getSolutions = () => [
-    "Verifique se o arquivo está nos formatos MP3, WAV ou M4A",
-    "Certifique-se de que o arquivo tem menos de 10MB",
+    "Verifique se o arquivo é um áudio (MP3, WAV, M4A...) ou um vídeo MP4, MKV, MOV ou AVI",
+    "Certifique-se de que o arquivo tem menos de 100MB (áudio) ou 1GB (vídeo)",
     "Verifique se o arquivo não está corrompido",
   ];
 
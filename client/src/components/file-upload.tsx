@@ -1,71 +1,202 @@
 import { useState, useRef } from "react";
+import { useQuery } from "@tanstack/react-query";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardDescription } from "@/components/ui/card";
-import { useFileUpload } from "@/hooks/use-file-upload";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { AudioRecorder } from "@/components/audio-recorder";
+import { LiveTranscription } from "@/components/live-transcription";
+import { useToast } from "@/hooks/use-toast";
+import { useUploadQueue, type QueueItem, type QueueItemState } from "@/hooks/use-upload-queue";
 import { formatFileSize } from "@/lib/file-utils";
-import type { TranscriptionResponse } from "@shared/schema";
+import type { UploadOptions } from "@/lib/uploads";
+import {
+  audioEnhancements,
+  transcriptionLanguages,
+  videoFileExtensions,
+  MAX_AUDIO_UPLOAD_BYTES,
+  MAX_VIDEO_UPLOAD_BYTES,
+  type AudioEnhancement,
+  type LanguageOption,
+  type ServerConfig,
+  type TranscriptionJob,
+  type TranscriptionResponse,
+  type TranscriptionTask,
+} from "@shared/schema";
 import { cn } from "@/lib/utils";
 
+const QUEUE_STATE_LABELS: Record<QueueItemState, string> = {
+  waiting: 'Aguardando',
+  uploading: 'Enviando arquivo...',
+  paused: 'Envio pausado',
+  interrupted: 'Conexão interrompida. O envio continua de onde parou ao retomar.',
+  processing: 'Processando',
+  done: 'Concluída',
+  failed: 'Falhou',
+};
+
+type SourceMode = 'file' | 'record' | 'live';
+
+// Options offered for how many files are uploaded and transcribed at once
+const CONCURRENCY_OPTIONS = [1, 2, 3, 4];
+
 interface FileUploadProps {
-  onUploadStart: () => void;
+  onUploadStart: (fileCount: number, options: UploadOptions) => void;
   onUploadSuccess: (result: TranscriptionResponse) => void;
   onUploadError: (error: string) => void;
   onProgress: (progress: number) => void;
+  onUploadProgress?: (progress: number) => void;
+  onJobUpdate?: (job: TranscriptionJob) => void;
+  onBatchComplete: (items: QueueItem[]) => void;
   disabled?: boolean;
 }
 
+// Returns why a file cannot be transcribed, or null if it is accepted
+function validateFile(file: File): string | null {
+  // Validate file type
+  const allowedTypes = [
+    'audio/mpeg', 
+    'audio/wav', 
+    'audio/x-m4a', 
+    'audio/mp4',
+    'audio/m4a',
+    'audio/mp3',
+    'audio/aac',
+    'audio/opus',
+    'audio/flac',
+    'audio/ogg',
+    'audio/webm'
+  ];
+  const videoTypes = ['video/mp4', 'video/x-m4v', 'video/x-matroska', 'video/quicktime', 'video/x-msvideo', 'video/avi'];
+  
+  // Also check file extension as backup (including formats with auto-conversion)
+  const allowedExtensions = ['.mp3', '.wav', '.m4a', '.flac', '.ogg', '.webm', '.opus'];
+  const lowerCaseName = file.name.toLowerCase();
+  const isVideo = videoTypes.includes(file.type) || videoFileExtensions.some(ext => lowerCaseName.endsWith(ext));
+  const hasValidExtension = allowedExtensions.some(ext => lowerCaseName.endsWith(ext));
+  
+  if (!allowedTypes.includes(file.type) && !hasValidExtension && !isVideo) {
+    return 'Formato de arquivo não suportado. Use MP3, WAV, M4A, FLAC, OGG, WEBM, OPUS ou vídeos MP4, MKV, MOV e AVI.';
+  }
+
+  // Validate file size (large files are handled by chunking; videos only keep their audio track)
+  if (isVideo && file.size > MAX_VIDEO_UPLOAD_BYTES) {
+    return 'Vídeo muito grande. O tamanho máximo é 1GB.';
+  }
+  if (!isVideo && file.size > MAX_AUDIO_UPLOAD_BYTES) {
+    return 'Arquivo muito grande. O tamanho máximo é 100MB.';
+  }
+
+  return null;
+}
+
+function getItemProgress(item: QueueItem): number {
+  if (item.state === 'done') return 100;
+  if (item.state === 'processing') return item.job?.progress ?? 0;
+  return item.uploadProgress;
+}
+
+function getItemLabel(item: QueueItem): string {
+  if (item.state === 'processing' && item.job?.message) return item.job.message;
+  if (item.state === 'done' && item.result?.status === 'partial') return 'Concluída com segmentos faltando';
+  if (item.state === 'failed' && item.error) return item.error;
+  return QUEUE_STATE_LABELS[item.state];
+}
+
 export function FileUpload({
   onUploadStart,
   onUploadSuccess,
   onUploadError,
   onProgress,
+  onUploadProgress,
+  onJobUpdate,
+  onBatchComplete,
   disabled = false,
 }: FileUploadProps) {
-  const [selectedFile, setSelectedFile] = useState<File | null>(null);
   const [isDragOver, setIsDragOver] = useState(false);
+  const [mode, setMode] = useState<SourceMode>('file');
+  const [language, setLanguage] = useState<LanguageOption>('pt');
+  const [task, setTask] = useState<TranscriptionTask>('transcribe');
+  const [enhancements, setEnhancements] = useState<AudioEnhancement[]>([]);
+  const [skipSilence, setSkipSilence] = useState(false);
+  const [diarize, setDiarize] = useState(false);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const { toast } = useToast();
+  // Speaker identification needs a backend on the server; hide it until one is known to exist
+  const { data: serverConfig } = useQuery<ServerConfig>({ queryKey: ['/api/config'] });
+  const canDiarize = serverConfig?.diarization === true;
 
-  const { uploadFile, isUploading } = useFileUpload({
-    onUploadStart,
-    onUploadSuccess,
-    onUploadError,
-    onProgress,
+  const {
+    items,
+    waitingCount,
+    concurrency,
+    setConcurrency,
+    addFiles,
+    removeItem,
+    clear,
+    start,
+    pauseItem,
+    resumeItem,
+    isRunning: isUploading,
+  } = useUploadQueue({
+    onStart: (batch, options) => {
+      onUploadStart(batch.length, options);
+      onProgress(0);
+    },
+    onUploadProgress: (item, progress) => {
+      onUploadProgress?.(progress);
+    },
+    onJobUpdate: (item, job) => {
+      onProgress(job.progress);
+      onJobUpdate?.(job);
+    },
+    onComplete: (results) => {
+      // A single file keeps the original flow straight to its result or error
+      if (results.length > 1) {
+        onBatchComplete(results);
+      } else if (results[0]?.result) {
+        onProgress(100);
+        onUploadSuccess(results[0].result);
+      } else {
+        onProgress(0);
+        onUploadError(results[0]?.error || 'Erro ao processar arquivo');
+      }
+    },
   });
 
-  const handleFileSelect = (file: File) => {
-    // Validate file type
-    const allowedTypes = [
-      'audio/mpeg', 
-      'audio/wav', 
-      'audio/x-m4a', 
-      'audio/mp4',
-      'audio/m4a',
-      'audio/mp3',
-      'audio/aac',
-      'audio/opus',
-      'audio/flac',
-      'audio/ogg',
-      'audio/webm'
-    ];
-    
-    // Also check file extension as backup (including formats with auto-conversion)
-    const allowedExtensions = ['.mp3', '.wav', '.m4a', '.mp4', '.flac', '.ogg', '.webm', '.opus'];
-    const hasValidExtension = allowedExtensions.some(ext => 
-      file.name.toLowerCase().endsWith(ext)
-    );
-    
-    if (!allowedTypes.includes(file.type) && !hasValidExtension) {
-      onUploadError('Formato de arquivo não suportado. Use MP3, WAV, M4A, FLAC, OGG, WEBM ou OPUS.');
-      return;
+  const handleFilesSelect = (files: File[]) => {
+    const accepted: File[] = [];
+    const rejected: string[] = [];
+    for (const file of files) {
+      const error = validateFile(file);
+      if (error) {
+        rejected.push(`${file.name}: ${error}`);
+      } else {
+        accepted.push(file);
+      }
     }
 
-    // Validate file size (100MB - large files are handled by chunking)
-    if (file.size > 104857600) {
-      onUploadError('Arquivo muito grande. O tamanho máximo é 100MB.');
+    if (accepted.length === 0 && items.length === 0) {
+      onUploadError(validateFile(files[0])!);
       return;
     }
+    if (rejected.length > 0) {
+      toast({
+        title: rejected.length === 1 ? 'Um arquivo foi ignorado' : `${rejected.length} arquivos foram ignorados`,
+        description: rejected.join('\n'),
+        variant: 'destructive',
+      });
+    }
 
-    setSelectedFile(file);
+    addFiles(accepted);
   };
 
   const handleDrop = (e: React.DragEvent) => {
@@ -76,7 +207,7 @@ export function FileUpload({
 
     const files = Array.from(e.dataTransfer.files);
     if (files.length > 0) {
-      handleFileSelect(files[0]);
+      handleFilesSelect(files);
     }
   };
 
@@ -95,24 +226,39 @@ export function FileUpload({
   const handleFileInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const files = Array.from(e.target.files || []);
     if (files.length > 0) {
-      handleFileSelect(files[0]);
+      handleFilesSelect(files);
     }
+    // Let the same file be picked again after it was removed from the queue
+    e.target.value = '';
   };
 
   const handleSelectFile = () => {
     fileInputRef.current?.click();
   };
 
-  const handleRemoveFile = () => {
-    setSelectedFile(null);
-    if (fileInputRef.current) {
-      fileInputRef.current.value = '';
-    }
+  // A finished recording joins the queue like any picked file
+  const handleRecordingReady = (file: File) => {
+    handleFilesSelect([file]);
+    setMode('file');
+  };
+
+  const handleRemoveFile = (id: string) => {
+    removeItem(id);
+  };
+
+  const handleCancel = () => {
+    clear();
+  };
+
+  const handleEnhancementChange = (enhancement: AudioEnhancement, checked: boolean) => {
+    setEnhancements((current) =>
+      checked ? [...current, enhancement] : current.filter((selected) => selected !== enhancement)
+    );
   };
 
   const handleTranscribe = async () => {
-    if (selectedFile) {
-      await uploadFile(selectedFile);
+    if (waitingCount > 0) {
+      await start({ language, task, enhancements, skipSilence, diarize: diarize && canDiarize });
     }
   };
 
@@ -120,17 +266,45 @@ export function FileUpload({
     <div className="mb-8">
       <Card>
         <CardHeader>
-          <h2 className="text-lg font-medium text-gray-900">Carregar Arquivo de Áudio</h2>
+          <h2 className="text-lg font-medium text-gray-900">Carregar Arquivos de Áudio</h2>
           <CardDescription>
-            Formatos suportados: MP3, WAV, M4A, FLAC, OGG, WEBM, OPUS<br/>
+            Formatos suportados: MP3, WAV, M4A, FLAC, OGG, WEBM, OPUS e vídeos MP4, MKV, MOV, AVI<br/>
             <span className="text-sm text-gray-500">
-              Arquivos grandes são automaticamente divididos e processados em segmentos
+              Selecione vários arquivos para transcrevê-los em lote, grave pelo navegador ou transcreva ao vivo. Arquivos grandes são automaticamente divididos e processados em segmentos
             </span>
           </CardDescription>
         </CardHeader>
         
         <CardContent>
-          {!selectedFile ? (
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept="audio/*,video/*"
+            multiple
+            onChange={handleFileInputChange}
+            className="hidden"
+            data-testid="input-file"
+          />
+
+          {!isUploading && (
+            <Tabs value={mode} onValueChange={(value) => setMode(value as SourceMode)} className="mb-4">
+              <TabsList>
+                <TabsTrigger value="file" data-testid="tab-upload-file">Enviar arquivo</TabsTrigger>
+                <TabsTrigger value="record" data-testid="tab-record">Gravar</TabsTrigger>
+                <TabsTrigger value="live" data-testid="tab-live">Ao vivo</TabsTrigger>
+              </TabsList>
+            </Tabs>
+          )}
+
+          {/* Kept mounted while hidden so switching tabs does not end a recording or live session */}
+          <div className={cn(mode !== 'record' && "hidden")}>
+            <AudioRecorder onRecordingReady={handleRecordingReady} disabled={disabled || isUploading} />
+          </div>
+          <div className={cn(mode !== 'live' && "hidden")}>
+            <LiveTranscription onComplete={onUploadSuccess} disabled={disabled || isUploading} />
+          </div>
+
+          {mode !== 'file' ? null : items.length === 0 ? (
             <>
               <div
                 className={cn(
@@ -150,73 +324,240 @@ export function FileUpload({
                       <path d="M14,2H6A2,2 0 0,0 4,4V20A2,2 0 0,0 6,22H18A2,2 0 0,0 20,20V8L14,2M18,20H6V4H13V9H18V20Z"/>
                     </svg>
                   </div>
-                  <h3 className="text-lg font-medium text-gray-900 mb-2">Arraste seu arquivo aqui</h3>
+                  <h3 className="text-lg font-medium text-gray-900 mb-2">Arraste seus arquivos aqui</h3>
                   <p className="text-secondary mb-4">ou clique para selecionar</p>
                   <Button 
                     type="button"
                     disabled={disabled}
                     data-testid="button-select-file"
                   >
-                    Selecionar Arquivo
+                    Selecionar Arquivos
                   </Button>
                 </div>
               </div>
-              
-              <input
-                ref={fileInputRef}
-                type="file"
-                accept="audio/*"
-                onChange={handleFileInputChange}
-                className="hidden"
-                data-testid="input-file"
-              />
             </>
           ) : (
             <div className="space-y-4">
-              <div className="flex items-center justify-between bg-gray-50 rounded-lg p-4">
-                <div className="flex items-center space-x-3">
-                  <div className="w-10 h-10 bg-primary rounded-lg flex items-center justify-center">
-                    <svg className="w-5 h-5 text-white" viewBox="0 0 24 24" fill="currentColor">
-                      <path d="M14,2H6A2,2 0 0,0 4,4V20A2,2 0 0,0 6,22H18A2,2 0 0,0 20,20V8L14,2M18,20H6V4H13V9H18V20Z"/>
-                    </svg>
+              <div className="space-y-2" data-testid="upload-queue">
+                {items.map((item) => (
+                  <div key={item.id} className="bg-gray-50 rounded-lg p-4" data-testid={`queue-item-${item.id}`}>
+                    <div className="flex items-center justify-between">
+                      <div className="flex items-center space-x-3 min-w-0">
+                        <div className={cn(
+                          "w-10 h-10 rounded-lg flex items-center justify-center flex-shrink-0",
+                          item.state === 'failed' ? "bg-red-500" : item.state === 'done' ? "bg-success" : "bg-primary"
+                        )}>
+                          <svg className="w-5 h-5 text-white" viewBox="0 0 24 24" fill="currentColor">
+                            <path d="M14,2H6A2,2 0 0,0 4,4V20A2,2 0 0,0 6,22H18A2,2 0 0,0 20,20V8L14,2M18,20H6V4H13V9H18V20Z"/>
+                          </svg>
+                        </div>
+                        <div className="min-w-0">
+                          <p className="font-medium text-gray-900 truncate" data-testid="text-filename">
+                            {item.file.name}
+                          </p>
+                          <p className="text-sm text-secondary" data-testid="text-filesize">
+                            {formatFileSize(item.file.size)}
+                            {item.state !== 'waiting' && (
+                              <span className={cn("ml-2", item.state === 'failed' && "text-error")} data-testid="text-item-status">
+                                · {getItemLabel(item)}
+                              </span>
+                            )}
+                          </p>
+                        </div>
+                      </div>
+                      <div className="flex items-center space-x-2 flex-shrink-0">
+                        {item.state === 'uploading' && (
+                          <Button variant="outline" size="sm" onClick={() => pauseItem(item.id)} data-testid="button-pause-upload">
+                            Pausar
+                          </Button>
+                        )}
+                        {(item.state === 'paused' || item.state === 'interrupted') && (
+                          <Button size="sm" onClick={() => resumeItem(item.id)} data-testid="button-resume-upload">
+                            Retomar
+                          </Button>
+                        )}
+                        {!isUploading && (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => handleRemoveFile(item.id)}
+                            disabled={disabled}
+                            data-testid="button-remove-file"
+                          >
+                            <svg className="w-4 h-4" viewBox="0 0 24 24" fill="currentColor">
+                              <path d="M19,6.41L17.59,5L12,10.59L6.41,5L5,6.41L10.59,12L5,17.59L6.41,19L12,13.41L17.59,19L19,17.59L13.41,12L19,6.41Z"/>
+                            </svg>
+                          </Button>
+                        )}
+                      </div>
+                    </div>
+
+                    {item.state !== 'waiting' && item.state !== 'failed' && (
+                      <div className="w-full bg-gray-200 rounded-full h-2 mt-3">
+                        <div
+                          className={cn(
+                            "h-2 rounded-full transition-all duration-300",
+                            item.state === 'processing' ? "bg-warning" : item.state === 'done' ? "bg-success" : "bg-primary"
+                          )}
+                          style={{ width: `${getItemProgress(item)}%` }}
+                          data-testid="upload-progress-bar"
+                        />
+                      </div>
+                    )}
                   </div>
-                  <div>
-                    <p className="font-medium text-gray-900" data-testid="text-filename">
-                      {selectedFile.name}
-                    </p>
-                    <p className="text-sm text-secondary" data-testid="text-filesize">
-                      {formatFileSize(selectedFile.size)}
-                    </p>
+                ))}
+
+                {!isUploading && (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={handleSelectFile}
+                    disabled={disabled}
+                    data-testid="button-add-files"
+                  >
+                    Adicionar arquivos
+                  </Button>
+                )}
+              </div>
+
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="select-language">Idioma do áudio</Label>
+                  <Select
+                    value={language}
+                    onValueChange={(value) => setLanguage(value as LanguageOption)}
+                    disabled={disabled || isUploading}
+                  >
+                    <SelectTrigger id="select-language" data-testid="select-language">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="auto">Detectar automaticamente</SelectItem>
+                      {Object.entries(transcriptionLanguages).map(([code, label]) => (
+                        <SelectItem key={code} value={code}>{label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="select-task">Modo</Label>
+                  <Select
+                    value={task}
+                    onValueChange={(value) => setTask(value as TranscriptionTask)}
+                    disabled={disabled || isUploading}
+                  >
+                    <SelectTrigger id="select-task" data-testid="select-task">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="transcribe">Transcrever</SelectItem>
+                      <SelectItem value="translate">Transcrever e traduzir para inglês</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+
+                {items.length > 1 && (
+                  <div className="space-y-2">
+                    <Label htmlFor="select-concurrency">Arquivos em paralelo</Label>
+                    <Select
+                      value={String(concurrency)}
+                      onValueChange={(value) => setConcurrency(Number(value))}
+                      disabled={disabled || isUploading}
+                    >
+                      <SelectTrigger id="select-concurrency" data-testid="select-concurrency">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {CONCURRENCY_OPTIONS.map((option) => (
+                          <SelectItem key={option} value={String(option)}>
+                            {option === 1 ? 'Um de cada vez' : `${option} ao mesmo tempo`}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
                   </div>
+                )}
+              </div>
+
+              <div className="space-y-2">
+                <Label>Melhorias de áudio</Label>
+                <p className="text-xs text-secondary">
+                  Para gravações ruidosas ou com volume baixo, como obras e ligações telefônicas
+                </p>
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+                  {(Object.entries(audioEnhancements) as [AudioEnhancement, string][]).map(([enhancement, label]) => (
+                    <div key={enhancement} className="flex items-center space-x-2">
+                      <Checkbox
+                        id={`enhancement-${enhancement}`}
+                        checked={enhancements.includes(enhancement)}
+                        onCheckedChange={(checked) => handleEnhancementChange(enhancement, checked === true)}
+                        disabled={disabled || isUploading}
+                        data-testid={`checkbox-enhancement-${enhancement}`}
+                      />
+                      <Label htmlFor={`enhancement-${enhancement}`} className="text-sm font-normal">
+                        {label}
+                      </Label>
+                    </div>
+                  ))}
                 </div>
-                <Button
-                  variant="ghost"
-                  size="sm"
-                  onClick={handleRemoveFile}
+              </div>
+
+              <div className="flex items-start space-x-2">
+                <Checkbox
+                  id="skip-silence"
+                  checked={skipSilence}
+                  onCheckedChange={(checked) => setSkipSilence(checked === true)}
                   disabled={disabled || isUploading}
-                  data-testid="button-remove-file"
-                >
-                  <svg className="w-4 h-4" viewBox="0 0 24 24" fill="currentColor">
-                    <path d="M19,6.41L17.59,5L12,10.59L6.41,5L5,6.41L10.59,12L5,17.59L6.41,19L12,13.41L17.59,19L19,17.59L13.41,12L19,6.41Z"/>
-                  </svg>
-                </Button>
+                  data-testid="checkbox-skip-silence"
+                />
+                <div className="space-y-1">
+                  <Label htmlFor="skip-silence" className="text-sm font-normal">
+                    Pular silêncios longos
+                  </Label>
+                  <p className="text-xs text-secondary">
+                    Trechos sem fala, como salas de espera e pausas em reuniões, não são enviados para transcrição
+                  </p>
+                </div>
               </div>
+
+              {canDiarize && (
+                <div className="flex items-start space-x-2">
+                  <Checkbox
+                    id="diarize"
+                    checked={diarize}
+                    onCheckedChange={(checked) => setDiarize(checked === true)}
+                    disabled={disabled || isUploading}
+                    data-testid="checkbox-diarize"
+                  />
+                  <div className="space-y-1">
+                    <Label htmlFor="diarize" className="text-sm font-normal">
+                      Identificar falantes
+                    </Label>
+                    <p className="text-xs text-secondary">
+                      Separa o texto de reuniões e entrevistas por quem está falando
+                    </p>
+                  </div>
+                </div>
+              )}
               
               <div className="flex space-x-3">
                 <Button
                   onClick={handleTranscribe}
-                  disabled={disabled || isUploading}
+                  disabled={disabled || isUploading || waitingCount === 0}
                   className="flex-1"
                   data-testid="button-transcribe"
                 >
                   <svg className="w-4 h-4 mr-2" viewBox="0 0 24 24" fill="currentColor">
                     <path d="M8,5.14V19.14L19,12.14L8,5.14Z"/>
                   </svg>
-                  {isUploading ? 'Processando...' : 'Iniciar Transcrição'}
+                  {isUploading
+                    ? 'Processando...'
+                    : waitingCount > 1 ? `Transcrever ${waitingCount} arquivos` : 'Iniciar Transcrição'}
                 </Button>
                 <Button
                   variant="outline"
-                  onClick={handleRemoveFile}
+                  onClick={handleCancel}
                   disabled={disabled || isUploading}
                   data-testid="button-cancel"
                 >
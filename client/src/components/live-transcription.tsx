@@ -0,0 +1,106 @@
+import { useEffect, useRef, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useLiveTranscription } from "@/hooks/use-live-transcription";
+import { formatElapsed } from "@/lib/file-utils";
+import { cn } from "@/lib/utils";
+import { transcriptionLanguages, type LanguageOption, type TranscriptionResponse } from "@shared/schema";
+
+interface LiveTranscriptionProps {
+  onComplete: (transcription: TranscriptionResponse) => void;
+  disabled?: boolean;
+}
+
+export function LiveTranscription({ onComplete, disabled = false }: LiveTranscriptionProps) {
+  const [language, setLanguage] = useState<LanguageOption>('pt');
+  const { state, segments, partialText, elapsed, error, warning, start, stop } = useLiveTranscription({
+    onSaved: onComplete,
+  });
+  const transcriptRef = useRef<HTMLDivElement>(null);
+
+  const finalText = segments.map((segment) => segment.text.trim()).filter(Boolean).join(' ');
+  const isActive = state === 'live' || state === 'finishing';
+
+  // Keep the latest words in view as they arrive
+  useEffect(() => {
+    transcriptRef.current?.scrollTo({ top: transcriptRef.current.scrollHeight });
+  }, [finalText, partialText]);
+
+  return (
+    <div className="border-2 border-dashed border-gray-300 rounded-lg p-8 space-y-4" data-testid="live-transcription">
+      <div className="flex flex-col sm:flex-row sm:items-end gap-4">
+        <div className="space-y-2 flex-1">
+          <Label htmlFor="select-live-language">Idioma da fala</Label>
+          <Select
+            value={language}
+            onValueChange={(value) => setLanguage(value as LanguageOption)}
+            disabled={disabled || state !== 'idle'}
+          >
+            <SelectTrigger id="select-live-language" data-testid="select-live-language">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="auto">Detectar automaticamente</SelectItem>
+              {Object.entries(transcriptionLanguages).map(([code, label]) => (
+                <SelectItem key={code} value={code}>{label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="flex items-center space-x-3">
+          {isActive && (
+            <span className="flex items-center text-sm font-mono text-gray-900" data-testid="text-live-time">
+              <span className={cn("w-2 h-2 rounded-full mr-2", state === 'live' ? "bg-red-500 animate-pulse" : "bg-gray-400")} />
+              {formatElapsed(elapsed)}
+            </span>
+          )}
+          {state === 'idle' || state === 'connecting' ? (
+            <Button
+              onClick={() => start(language)}
+              disabled={disabled || state === 'connecting'}
+              data-testid="button-start-live"
+            >
+              {state === 'connecting' ? 'Conectando...' : 'Começar a transcrever'}
+            </Button>
+          ) : (
+            <Button onClick={stop} disabled={state === 'finishing'} data-testid="button-stop-live">
+              {state === 'finishing' ? 'Finalizando...' : 'Parar e salvar'}
+            </Button>
+          )}
+        </div>
+      </div>
+
+      <div
+        ref={transcriptRef}
+        className="h-48 overflow-y-auto rounded-md bg-gray-50 p-4 text-sm leading-relaxed text-gray-900"
+        data-testid="text-live-transcript"
+      >
+        {finalText || partialText ? (
+          <>
+            {finalText}
+            {partialText && (
+              <span className="text-gray-500 italic">{finalText ? ' ' : ''}{partialText}</span>
+            )}
+          </>
+        ) : (
+          <span className="text-secondary">
+            {state === 'live'
+              ? 'Ouvindo... o texto aparece aqui enquanto você fala.'
+              : 'Fale ao microfone e acompanhe a transcrição em tempo real. Ao parar, ela é salva no histórico.'}
+          </span>
+        )}
+      </div>
+
+      {warning && <p className="text-sm text-warning" data-testid="text-live-warning">{warning}</p>}
+      {error && <p className="text-sm text-error" data-testid="text-live-error">{error}</p>}
+    </div>
+  );
+}
@@ -1,19 +1,60 @@
 import { Card, CardContent, CardHeader } from "@/components/ui/card";
+import type { UploadOptions } from "@/lib/uploads";
+import type { ChunkStatus, JobChunk, JobState } from "@shared/schema";
+
+// Options that add stages to the pipeline
+type StageOptions = Pick<UploadOptions, "skipSilence" | "diarize">;
 
 interface ProcessingStatusProps {
   progress: number;
+  uploadProgress?: number; // shown instead of the job's progress until the job exists
+  jobState?: JobState | null;
+  message?: string;
+  chunks?: JobChunk[];
+  options?: StageOptions;
 }
 
-export function ProcessingStatus({ progress }: ProcessingStatusProps) {
-  const getProgressSteps = (progress: number) => {
-    return [
-      { label: "Arquivo carregado", completed: progress > 0 },
-      { label: "Processando áudio...", completed: progress >= 100, inProgress: progress > 0 && progress < 100 },
-      { label: "Gerando transcrição", completed: progress >= 100 },
-    ];
+// Pipeline stages in the order the server runs them; stages with an option
+// only run when that option was chosen for the upload
+const PIPELINE_STAGES: { state: JobState; label: string; option?: keyof StageOptions }[] = [
+  { state: "queued", label: "Arquivo recebido" },
+  { state: "converting", label: "Conversão de áudio" },
+  { state: "detecting_speech", label: "Detecção de fala", option: "skipSilence" },
+  { state: "chunking", label: "Divisão em segmentos" },
+  { state: "transcribing", label: "Transcrição" },
+  { state: "diarizing", label: "Identificação de falantes", option: "diarize" },
+  { state: "saving", label: "Salvando transcrição" },
+];
+
+const CHUNK_STATUS_STYLES: Record<ChunkStatus, { className: string; label: string }> = {
+  pending: { className: "bg-gray-200", label: "aguardando" },
+  transcribing: { className: "bg-warning animate-pulse", label: "transcrevendo" },
+  done: { className: "bg-success", label: "concluído" },
+  failed: { className: "bg-red-500", label: "falhou" },
+};
+
+export function ProcessingStatus({ progress, uploadProgress, jobState, message, chunks, options }: ProcessingStatusProps) {
+  // The job only exists once the file is on the server; until then the bar follows the upload
+  const isUploading = !jobState;
+  const barProgress = isUploading ? uploadProgress ?? 0 : progress;
+  const barMessage = isUploading ? "Enviando arquivo" : message;
+  const stages = PIPELINE_STAGES.filter((stage) => !stage.option || options?.[stage.option]);
+
+  const getProgressSteps = (jobState?: JobState | null) => {
+    const currentIndex = jobState === "done"
+      ? stages.length
+      : stages.findIndex((stage) => stage.state === jobState);
+
+    return stages.map((stage, index) => ({
+      label: stage.label,
+      // The upload itself is complete as soon as the server has created the job
+      completed: index < currentIndex || (stage.state === "queued" && currentIndex >= 0),
+      // Before the job exists the file is still being uploaded
+      inProgress: currentIndex < 0 ? index === 0 : index === currentIndex && stage.state !== "queued",
+    }));
   };
 
-  const steps = getProgressSteps(progress);
+  const steps = getProgressSteps(jobState);
 
   return (
     <div className="mb-8" data-testid="processing-status">
@@ -32,16 +73,21 @@ export function ProcessingStatus({ progress }: ProcessingStatusProps) {
           {/* Progress Bar */}
           <div className="mb-6">
             <div className="flex justify-between text-sm text-secondary mb-2">
-              <span>Progresso</span>
-              <span data-testid="text-progress">{Math.round(progress)}%</span>
+              <span>{isUploading ? "Envio do arquivo" : "Progresso"}</span>
+              <span data-testid="text-progress">{Math.round(barProgress)}%</span>
             </div>
             <div className="w-full bg-gray-200 rounded-full h-2">
               <div 
                 className="bg-warning h-2 rounded-full transition-all duration-300" 
-                style={{ width: `${progress}%` }}
+                style={{ width: `${barProgress}%` }}
                 data-testid="progress-bar"
               />
             </div>
+            {barMessage && (
+              <p className="text-sm text-secondary mt-2" data-testid="text-job-message">
+                {barMessage}
+              </p>
+            )}
           </div>
 
           {/* Processing Steps */}
@@ -71,6 +117,26 @@ export function ProcessingStatus({ progress }: ProcessingStatusProps) {
               </div>
             ))}
           </div>
+
+          {/* Per-chunk status for long recordings transcribed in parallel */}
+          {chunks && chunks.length > 0 && (
+            <div className="mt-6" data-testid="chunk-status">
+              <p className="text-sm text-secondary mb-2">
+                Segmentos: {chunks.filter((chunk) => chunk.status === "done").length} de {chunks.length} concluídos
+              </p>
+              <div className="flex flex-wrap gap-1">
+                {chunks.map((chunk) => (
+                  <div
+                    key={chunk.index}
+                    className={`w-4 h-4 rounded-sm ${CHUNK_STATUS_STYLES[chunk.status].className}`}
+                    title={`Segmento ${chunk.index + 1}: ${chunk.error ?? CHUNK_STATUS_STYLES[chunk.status].label}` +
+                      (chunk.retries ? ` (${chunk.retries} ${chunk.retries === 1 ? "nova tentativa" : "novas tentativas"})` : "")}
+                    data-testid={`chunk-status-${chunk.index}`}
+                  />
+                ))}
+              </div>
+            </div>
+          )}
         </CardContent>
       </Card>
     </div>
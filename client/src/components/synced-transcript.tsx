@@ -0,0 +1,90 @@
+import { useEffect, useRef } from "react";
+import { formatTimestamp } from "@/lib/file-utils";
+import { cn } from "@/lib/utils";
+import type { TranscriptSegment } from "@shared/schema";
+
+interface SyncedTranscriptProps {
+  segments: TranscriptSegment[];
+  speakerNames: Record<string, string>;
+  currentTime: number;
+  isPlaying: boolean;
+  onSeek: (time: number) => void;
+}
+
+/**
+ * Transcript with one clickable span per segment: clicking plays the audio
+ * from there, and the segment being played is highlighted and kept in view.
+ * Consecutive segments of the same speaker share a paragraph.
+ */
+export function SyncedTranscript({ segments, speakerNames, currentTime, isPlaying, onSeek }: SyncedTranscriptProps) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const activeRef = useRef<HTMLSpanElement>(null);
+  const activeIndex = segments.findIndex((segment) => currentTime >= segment.start && currentTime < segment.end);
+
+  const paragraphs: { speaker?: string; indexes: number[] }[] = [];
+  segments.forEach((segment, index) => {
+    const last = paragraphs[paragraphs.length - 1];
+    if (last && last.speaker === segment.speaker) {
+      last.indexes.push(index);
+    } else {
+      paragraphs.push({ speaker: segment.speaker, indexes: [index] });
+    }
+  });
+
+  // Follow playback inside the transcript box only, so the page itself does not jump
+  useEffect(() => {
+    const container = containerRef.current;
+    const active = activeRef.current;
+    if (!isPlaying || !container || !active) {
+      return;
+    }
+    const top = active.offsetTop - container.offsetTop;
+    if (top < container.scrollTop || top + active.offsetHeight > container.scrollTop + container.clientHeight) {
+      container.scrollTo({ top: top - container.clientHeight / 3, behavior: 'smooth' });
+    }
+  }, [activeIndex, isPlaying]);
+
+  return (
+    <div
+      ref={containerRef}
+      className="max-h-96 overflow-y-auto text-gray-800 leading-relaxed text-sm space-y-4"
+      data-testid="text-transcription"
+    >
+      {paragraphs.map(({ speaker, indexes }) => (
+        <p key={indexes[0]}>
+          {speaker && (
+            <span className="font-semibold text-gray-900">{speakerNames[speaker] ?? speaker}: </span>
+          )}
+          {indexes.map((index) => {
+            const segment = segments[index];
+            const isActive = index === activeIndex;
+            return (
+              <span key={index}>
+                <span
+                  ref={isActive ? activeRef : undefined}
+                  role="button"
+                  tabIndex={0}
+                  title={formatTimestamp(segment.start)}
+                  onClick={() => onSeek(segment.start)}
+                  onKeyDown={(event) => {
+                    if (event.key === 'Enter' || event.key === ' ') {
+                      event.preventDefault();
+                      onSeek(segment.start);
+                    }
+                  }}
+                  className={cn(
+                    "cursor-pointer rounded px-0.5 transition-colors hover:bg-blue-50",
+                    isActive && "bg-yellow-200 hover:bg-yellow-200"
+                  )}
+                  data-testid={`segment-${index}`}
+                >
+                  {segment.text.trim()}
+                </span>{' '}
+              </span>
+            );
+          })}
+        </p>
+      ))}
+    </div>
+  );
+}
@@ -1,19 +1,181 @@
+import { useEffect, useRef, useState } from "react";
+import { useMutation } from "@tanstack/react-query";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { SyncedTranscript } from "@/components/synced-transcript";
 import { useToast } from "@/hooks/use-toast";
-import type { TranscriptionResponse } from "@shared/schema";
+import { queryClient } from "@/lib/queryClient";
+import { formatTimestamp } from "@/lib/file-utils";
+import { watchJob } from "@/lib/jobs";
+import {
+  audioEnhancements,
+  transcriptionLanguages,
+  type MediaDescription,
+  type PreprocessingReason,
+  type SubtitleFormat,
+  type TranscriptionJob,
+  type TranscriptionResponse,
+  type TranscriptSegment,
+} from "@shared/schema";
+
+const PREPROCESSING_REASON_LABELS: Record<PreprocessingReason, string> = {
+  video: "áudio extraído do vídeo",
+  multiple_audio_streams: "faixa de áudio selecionada",
+  unsupported_format: "formato não aceito pelo serviço",
+  too_large: "arquivo grande demais para envio direto",
+  missing_duration: "arquivo sem duração registrada",
+  enhancement: "filtros de áudio aplicados",
+};
+
+// One paragraph per speaker turn, e.g. "Maria: ..."
+function formatSpeakerText(segments: TranscriptSegment[], speakerNames: Record<string, string>): string {
+  const paragraphs: { speaker?: string; text: string[] }[] = [];
+  for (const segment of segments) {
+    const last = paragraphs[paragraphs.length - 1];
+    if (last && last.speaker === segment.speaker) {
+      last.text.push(segment.text.trim());
+    } else {
+      paragraphs.push({ speaker: segment.speaker, text: [segment.text.trim()] });
+    }
+  }
+  return paragraphs
+    .map(({ speaker, text }) => speaker ? `${speakerNames[speaker] ?? speaker}: ${text.join(' ')}` : text.join(' '))
+    .join('\n\n');
+}
 
 interface TranscriptionResultsProps {
   transcription: TranscriptionResponse;
   onNewTranscription: () => void;
+  // Called with the merged result after failed segments are retried
+  onTranscriptionUpdate?: (transcription: TranscriptionResponse) => void;
 }
 
-export function TranscriptionResults({ transcription, onNewTranscription }: TranscriptionResultsProps) {
+export function TranscriptionResults({ transcription, onNewTranscription, onTranscriptionUpdate }: TranscriptionResultsProps) {
   const { toast } = useToast();
+  const [maxCharsPerLine, setMaxCharsPerLine] = useState(42);
+  const [maxLinesPerCue, setMaxLinesPerCue] = useState(2);
+  const hasSegments = (transcription.segments?.length ?? 0) > 0;
+  const hasTranslation = transcription.translatedText !== undefined;
+  const [showTranslation, setShowTranslation] = useState(false);
+  const speakers = transcription.speakers ?? [];
+  const speakerNames = Object.fromEntries(speakers.map((speaker) => [speaker.id, speaker.name]));
+  const [speakerDrafts, setSpeakerDrafts] = useState<Record<string, string>>(speakerNames);
+  // Only names the user changed are sent, so speakers left on "Falante N" keep the default label
+  const editedSpeakerNames = Object.fromEntries(
+    Object.entries(speakerDrafts).filter(([id, name]) => name.trim() !== speakerNames[id])
+  );
+  const hasEditedSpeakerNames = Object.keys(editedSpeakerNames).length > 0;
+  const displayedText = showTranslation && hasTranslation
+    ? transcription.translatedText!
+    : speakers.length > 0 && hasSegments
+      ? formatSpeakerText(transcription.segments!, speakerNames)
+      : transcription.transcriptionText;
+  // With the audio at hand, the transcript follows playback and each segment can be played
+  const showSyncedTranscript = !!transcription.audioUrl && hasSegments && !(showTranslation && hasTranslation);
+  const audioRef = useRef<HTMLAudioElement>(null);
+  const [currentTime, setCurrentTime] = useState(0);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const failedChunks = transcription.chunks?.filter((chunk) => chunk.status === "failed") ?? [];
+  const isPartial = transcription.status === "partial";
+  const [retryProgress, setRetryProgress] = useState(0);
+
+  const retryMutation = useMutation({
+    mutationFn: async (): Promise<TranscriptionResponse> => {
+      const response = await fetch(`/api/transcriptions/${transcription.id}/retry`, { method: 'POST' });
+
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}));
+        throw new Error(errorData.error || 'Erro ao reprocessar segmentos');
+      }
+
+      const createdJob: TranscriptionJob = await response.json();
+      setRetryProgress(createdJob.progress);
+      const job = await watchJob(createdJob.id, (update) => setRetryProgress(update.progress));
+
+      if (job.state === 'failed' || !job.result) {
+        throw new Error(job.error || 'Erro ao reprocessar segmentos');
+      }
+
+      return job.result;
+    },
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/transcriptions'] });
+      onTranscriptionUpdate?.(result);
+      toast({
+        title: result.status === "partial" ? "Alguns segmentos ainda falharam" : "Transcrição completa",
+        description: result.status === "partial"
+          ? "Os segmentos que funcionaram foram adicionados ao texto."
+          : "Todos os segmentos foram transcritos.",
+        variant: result.status === "partial" ? "destructive" : "default",
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Erro ao reprocessar",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleSeek = (time: number) => {
+    const audio = audioRef.current;
+    if (!audio) {
+      return;
+    }
+    audio.currentTime = time;
+    setCurrentTime(time);
+    audio.play().catch(() => {});
+  };
+
+  // Another recording loads from its start, paused
+  useEffect(() => {
+    setCurrentTime(0);
+    setIsPlaying(false);
+  }, [transcription.id]);
+
+  // Start over from the saved names whenever another transcription (or a renamed one) comes in
+  useEffect(() => {
+    setSpeakerDrafts(Object.fromEntries((transcription.speakers ?? []).map((speaker) => [speaker.id, speaker.name])));
+  }, [transcription]);
+
+  const renameMutation = useMutation({
+    mutationFn: async (names: Record<string, string>): Promise<TranscriptionResponse> => {
+      const response = await fetch(`/api/transcriptions/${transcription.id}/speakers`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ names }),
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}));
+        throw new Error(errorData.error || 'Erro ao renomear falantes');
+      }
+
+      return response.json();
+    },
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/transcriptions'] });
+      onTranscriptionUpdate?.(result);
+      toast({
+        title: "Falantes renomeados",
+        description: "Os novos nomes aparecem no texto e nas legendas exportadas.",
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Erro ao renomear",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
 
   const handleCopyToClipboard = async () => {
     try {
-      await navigator.clipboard.writeText(transcription.transcriptionText);
+      await navigator.clipboard.writeText(displayedText);
       toast({
         title: "Copiado!",
         description: "Texto copiado para a área de transferência.",
@@ -28,11 +190,12 @@ export function TranscriptionResults({ transcription, onNewTranscription }: Tran
   };
 
   const handleDownloadTranscription = () => {
-    const blob = new Blob([transcription.transcriptionText], { type: 'text/plain' });
+    const blob = new Blob([displayedText], { type: 'text/plain' });
     const url = URL.createObjectURL(blob);
     const a = document.createElement('a');
     a.href = url;
-    a.download = `${transcription.filename.replace(/\.[^/.]+$/, '')}_transcrição.txt`;
+    const suffix = showTranslation && hasTranslation ? 'tradução' : 'transcrição';
+    a.download = `${transcription.filename.replace(/\.[^/.]+$/, '')}_${suffix}.txt`;
     document.body.appendChild(a);
     a.click();
     document.body.removeChild(a);
@@ -44,6 +207,25 @@ export function TranscriptionResults({ transcription, onNewTranscription }: Tran
     });
   };
 
+  const handleDownloadSubtitles = (format: SubtitleFormat) => {
+    const params = new URLSearchParams({
+      format,
+      maxCharsPerLine: String(maxCharsPerLine),
+      maxLinesPerCue: String(maxLinesPerCue),
+    });
+    // The server builds the file from the stored segment timestamps and sends it as an attachment
+    const a = document.createElement('a');
+    a.href = `/api/transcriptions/${transcription.id}/export?${params}`;
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+
+    toast({
+      title: "Download iniciado",
+      description: `As legendas foram exportadas em formato ${format.toUpperCase()}.`,
+    });
+  };
+
   const formatDuration = (duration?: number) => {
     if (!duration) return "N/A";
     const minutes = Math.floor(duration / 60);
@@ -51,34 +233,149 @@ export function TranscriptionResults({ transcription, onNewTranscription }: Tran
     return `${minutes}:${seconds.toString().padStart(2, '0')}`;
   };
 
+  const formatLanguage = (language?: string) => {
+    if (!language) return "N/A";
+    return transcriptionLanguages[language as keyof typeof transcriptionLanguages] ?? language.toUpperCase();
+  };
+
   const formatProcessingTime = (time: number) => {
     return time < 1 ? `${Math.round(time * 1000)}ms` : `${time.toFixed(1)}s`;
   };
 
+  // e.g. "AAC 48 kHz estéreo"
+  const formatMedia = (media?: MediaDescription) => {
+    if (!media) return "formato desconhecido";
+    const channels = media.channels === 1 ? "mono" : media.channels === 2 ? "estéreo" : media.channels ? `${media.channels} canais` : undefined;
+    return [
+      media.codec?.toUpperCase(),
+      media.sampleRate ? `${media.sampleRate / 1000} kHz` : undefined,
+      channels,
+    ].filter(Boolean).join(" ");
+  };
+
   return (
     <div data-testid="transcription-results">
       <Card>
         <CardHeader>
           <div className="flex items-center justify-between">
             <div>
-              <h2 className="text-lg font-medium text-gray-900">Transcrição Concluída</h2>
+              <h2 className="text-lg font-medium text-gray-900">
+                {isPartial ? "Transcrição Parcial" : "Transcrição Concluída"}
+              </h2>
               <p className="text-sm text-secondary mt-1">
                 <svg className="inline w-4 h-4 mr-1" viewBox="0 0 24 24" fill="currentColor">
                   <path d="M12,2A10,10 0 0,0 2,12A10,10 0 0,0 12,22A10,10 0 0,0 22,12A10,10 0 0,0 12,2M16.2,16.2L11,13V7H12.5V12.2L17,14.9L16.2,16.2Z"/>
                 </svg>
                 Processado em <span data-testid="text-processing-time">{formatProcessingTime(transcription.processingTime)}</span>
+                <span className="mx-2">•</span>
+                Idioma: <span data-testid="text-language">{formatLanguage(transcription.language)}</span>
+                {transcription.voiceActivity && (
+                  <>
+                    <span className="mx-2">•</span>
+                    <span data-testid="text-skipped-silence">
+                      {formatTimestamp(transcription.voiceActivity.skippedSeconds)} de silêncio ignorados
+                    </span>
+                  </>
+                )}
               </p>
+              {transcription.preprocessing?.applied && (
+                <p className="text-xs text-secondary mt-1" data-testid="text-preprocessing">
+                  Áudio convertido ({transcription.preprocessing.reasons.map((reason) => PREPROCESSING_REASON_LABELS[reason]).join(", ")}):{" "}
+                  {formatMedia(transcription.preprocessing.input)} → {formatMedia(transcription.preprocessing.output)}
+                  {transcription.preprocessing.enhancements && (
+                    <> · Filtros: {transcription.preprocessing.enhancements.map((enhancement) => audioEnhancements[enhancement]).join(", ")}</>
+                  )}
+                </p>
+              )}
             </div>
-            <div className="flex items-center space-x-2 text-success">
-              <svg className="w-5 h-5" viewBox="0 0 24 24" fill="currentColor">
-                <path d="M21,7L9,19L3.5,13.5L4.91,12.09L9,16.17L19.59,5.59L21,7Z"/>
-              </svg>
-              <span className="text-sm font-medium">Sucesso</span>
-            </div>
+            {isPartial ? (
+              <div className="flex items-center space-x-2 text-warning">
+                <svg className="w-5 h-5" viewBox="0 0 24 24" fill="currentColor">
+                  <path d="M13,14H11V10H13M13,18H11V16H13M1,21H23L12,2L1,21Z"/>
+                </svg>
+                <span className="text-sm font-medium">Incompleta</span>
+              </div>
+            ) : (
+              <div className="flex items-center space-x-2 text-success">
+                <svg className="w-5 h-5" viewBox="0 0 24 24" fill="currentColor">
+                  <path d="M21,7L9,19L3.5,13.5L4.91,12.09L9,16.17L19.59,5.59L21,7Z"/>
+                </svg>
+                <span className="text-sm font-medium">Sucesso</span>
+              </div>
+            )}
           </div>
         </CardHeader>
 
         <CardContent>
+          {/* Missing parts of a partial transcription */}
+          {isPartial && failedChunks.length > 0 && (
+            <div className="border border-yellow-200 bg-yellow-50 rounded-lg p-4 mb-6" data-testid="failed-chunks">
+              <p className="text-sm font-medium text-gray-900 mb-2">
+                {failedChunks.length === 1
+                  ? "1 trecho do áudio não pôde ser transcrito:"
+                  : `${failedChunks.length} trechos do áudio não puderam ser transcritos:`}
+              </p>
+              <ul className="space-y-1 mb-4">
+                {failedChunks.map((chunk) => (
+                  <li key={chunk.index} className="text-sm text-secondary" data-testid={`failed-chunk-${chunk.index}`}>
+                    <span className="font-mono text-gray-700">
+                      {formatTimestamp(chunk.start)} – {formatTimestamp(chunk.end)}
+                    </span>
+                    {chunk.error && <span>: {chunk.error}</span>}
+                  </li>
+                ))}
+              </ul>
+              <div className="flex items-center gap-3">
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={() => retryMutation.mutate()}
+                  disabled={retryMutation.isPending}
+                  data-testid="button-retry-failed"
+                >
+                  {retryMutation.isPending ? "Reprocessando..." : "Tentar novamente os segmentos com falha"}
+                </Button>
+                {retryMutation.isPending && (
+                  <span className="text-sm text-secondary" data-testid="text-retry-progress">
+                    {Math.round(retryProgress)}%
+                  </span>
+                )}
+              </div>
+            </div>
+          )}
+
+          {/* Speaker names */}
+          {speakers.length > 0 && (
+            <div className="border border-gray-200 rounded-lg p-4 mb-6" data-testid="speakers">
+              <h3 className="text-sm font-medium text-gray-900 mb-3">Falantes</h3>
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-3 mb-3">
+                {speakers.map((speaker) => (
+                  <div key={speaker.id} className="space-y-1">
+                    <Label htmlFor={`speaker-${speaker.id}`} className="text-xs text-secondary">
+                      Falante {speaker.id}
+                    </Label>
+                    <Input
+                      id={`speaker-${speaker.id}`}
+                      value={speakerDrafts[speaker.id] ?? ''}
+                      maxLength={60}
+                      onChange={(e) => setSpeakerDrafts((drafts) => ({ ...drafts, [speaker.id]: e.target.value }))}
+                      data-testid={`input-speaker-${speaker.id}`}
+                    />
+                  </div>
+                ))}
+              </div>
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={() => renameMutation.mutate(editedSpeakerNames)}
+                disabled={renameMutation.isPending || !hasEditedSpeakerNames}
+                data-testid="button-rename-speakers"
+              >
+                {renameMutation.isPending ? "Salvando..." : "Salvar nomes"}
+              </Button>
+            </div>
+          )}
+
           {/* Transcription Text */}
           <div className="bg-gray-50 rounded-lg p-6 mb-6">
             <div className="flex items-center justify-between mb-4">
@@ -87,6 +384,28 @@ export function TranscriptionResults({ transcription, onNewTranscription }: Tran
                   <path d="M14,2H6A2,2 0 0,0 4,4V20A2,2 0 0,0 6,22H18A2,2 0 0,0 20,20V8L14,2M18,20H6V4H13V9H18V20Z"/>
                 </svg>
                 <span className="text-sm font-medium text-secondary">TRANSCRIÇÃO</span>
+                {hasTranslation && (
+                  <div className="flex items-center rounded-md border border-gray-200 bg-white p-0.5 ml-2">
+                    <Button
+                      size="sm"
+                      variant={showTranslation ? "ghost" : "secondary"}
+                      className="h-7 px-3"
+                      onClick={() => setShowTranslation(false)}
+                      data-testid="button-show-original"
+                    >
+                      Original
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant={showTranslation ? "secondary" : "ghost"}
+                      className="h-7 px-3"
+                      onClick={() => setShowTranslation(true)}
+                      data-testid="button-show-translation"
+                    >
+                      {formatLanguage(transcription.translationLanguage)}
+                    </Button>
+                  </div>
+                )}
               </div>
               <div className="flex items-center space-x-2 text-sm text-secondary">
                 <svg className="w-4 h-4" viewBox="0 0 24 24" fill="currentColor">
@@ -96,14 +415,43 @@ export function TranscriptionResults({ transcription, onNewTranscription }: Tran
               </div>
             </div>
             
-            <div className="prose max-w-none">
-              <div 
-                className="text-gray-800 leading-relaxed font-mono text-sm whitespace-pre-wrap"
-                data-testid="text-transcription"
-              >
-                {transcription.transcriptionText}
+            {transcription.audioUrl && (
+              <div className="mb-4">
+                <audio
+                  ref={audioRef}
+                  src={transcription.audioUrl}
+                  controls
+                  preload="metadata"
+                  className="w-full"
+                  onTimeUpdate={(e) => setCurrentTime(e.currentTarget.currentTime)}
+                  onPlay={() => setIsPlaying(true)}
+                  onPause={() => setIsPlaying(false)}
+                  data-testid="audio-player"
+                />
+                {showSyncedTranscript && (
+                  <p className="text-xs text-secondary mt-2">Clique em um trecho do texto para ouvi-lo.</p>
+                )}
               </div>
-            </div>
+            )}
+
+            {showSyncedTranscript ? (
+              <SyncedTranscript
+                segments={transcription.segments!}
+                speakerNames={speakerNames}
+                currentTime={currentTime}
+                isPlaying={isPlaying}
+                onSeek={handleSeek}
+              />
+            ) : (
+              <div className="prose max-w-none">
+                <div 
+                  className="text-gray-800 leading-relaxed font-mono text-sm whitespace-pre-wrap"
+                  data-testid="text-transcription"
+                >
+                  {displayedText}
+                </div>
+              </div>
+            )}
           </div>
 
           {/* Action Buttons */}
@@ -140,6 +488,61 @@ export function TranscriptionResults({ transcription, onNewTranscription }: Tran
               Nova Transcrição
             </Button>
           </div>
+
+          {/* Subtitle Export */}
+          {hasSegments && (
+            <div className="border-t border-gray-200 pt-6" data-testid="subtitle-export">
+              <h3 className="text-sm font-medium text-gray-900 mb-3">Exportar Legendas</h3>
+              <div className="flex flex-col sm:flex-row sm:items-end gap-3">
+                <div className="space-y-1">
+                  <Label htmlFor="max-chars-per-line" className="text-xs text-secondary">Caracteres por linha</Label>
+                  <Input
+                    id="max-chars-per-line"
+                    type="number"
+                    min={10}
+                    max={100}
+                    value={maxCharsPerLine}
+                    onChange={(e) => setMaxCharsPerLine(Number(e.target.value))}
+                    className="sm:w-32"
+                    data-testid="input-max-chars-per-line"
+                  />
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor="max-lines-per-cue" className="text-xs text-secondary">Linhas por legenda</Label>
+                  <Input
+                    id="max-lines-per-cue"
+                    type="number"
+                    min={1}
+                    max={4}
+                    value={maxLinesPerCue}
+                    onChange={(e) => setMaxLinesPerCue(Number(e.target.value))}
+                    className="sm:w-32"
+                    data-testid="input-max-lines-per-cue"
+                  />
+                </div>
+                <Button
+                  variant="outline"
+                  onClick={() => handleDownloadSubtitles('srt')}
+                  data-testid="button-download-srt"
+                >
+                  <svg className="w-4 h-4 mr-2" viewBox="0 0 24 24" fill="currentColor">
+                    <path d="M5,20H19V18H5M19,9H15V3H9V9H5L12,16L19,9Z"/>
+                  </svg>
+                  Baixar (.srt)
+                </Button>
+                <Button
+                  variant="outline"
+                  onClick={() => handleDownloadSubtitles('vtt')}
+                  data-testid="button-download-vtt"
+                >
+                  <svg className="w-4 h-4 mr-2" viewBox="0 0 24 24" fill="currentColor">
+                    <path d="M5,20H19V18H5M19,9H15V3H9V9H5L12,16L19,9Z"/>
+                  </svg>
+                  Baixar (.vtt)
+                </Button>
+              </div>
+            </div>
+          )}
         </CardContent>
       </Card>
 
@@ -173,7 +576,7 @@ export function TranscriptionResults({ transcription, onNewTranscription }: Tran
           </div>
         </Card>
         
-{transcription.totalChunks && transcription.totalChunks > 1 ? (
+        {transcription.totalChunks && transcription.totalChunks > 1 ? (
           <Card className="p-4">
             <div className="flex items-center justify-between">
               <div>
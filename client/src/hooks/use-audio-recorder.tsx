@@ -0,0 +1,247 @@
+import { useEffect, useRef, useState } from "react";
+
+export type RecorderState = 'idle' | 'requesting' | 'recording' | 'paused' | 'stopped';
+
+export interface Recording {
+  file: File;
+  url: string; // object URL for the preview player
+  duration: number;
+}
+
+// At 64 kbps two hours of Opus stay well under the 100MB audio upload limit
+export const MAX_RECORDING_SECONDS = 2 * 60 * 60;
+const RECORDING_BITS_PER_SECOND = 64000;
+
+// Formats tried in order; WebM/Opus is what Chrome and Firefox record natively
+const RECORDING_MIME_TYPES = ['audio/webm;codecs=opus', 'audio/webm', 'audio/ogg;codecs=opus', 'audio/mp4'];
+
+const FILE_EXTENSIONS: Record<string, string> = {
+  'audio/webm': 'webm',
+  'audio/ogg': 'ogg',
+  'audio/mp4': 'm4a',
+};
+
+function pickMimeType(): string | undefined {
+  return RECORDING_MIME_TYPES.find((type) => MediaRecorder.isTypeSupported(type));
+}
+
+// e.g. "gravacao-2024-05-10-14h32.webm"
+function getRecordingFileName(mimeType: string, date: Date): string {
+  const pad = (value: number) => String(value).padStart(2, '0');
+  const stamp = `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}-${pad(date.getHours())}h${pad(date.getMinutes())}`;
+  return `gravacao-${stamp}.${FILE_EXTENSIONS[mimeType] ?? 'webm'}`;
+}
+
+export function getMicrophoneError(error: unknown): string {
+  const name = error instanceof DOMException ? error.name : '';
+  if (name === 'NotAllowedError' || name === 'SecurityError') {
+    return 'Permissão para usar o microfone negada. Libere o acesso nas configurações do navegador.';
+  }
+  if (name === 'NotFoundError') {
+    return 'Nenhum microfone encontrado.';
+  }
+  if (name === 'NotReadableError') {
+    return 'O microfone está sendo usado por outro aplicativo.';
+  }
+  return 'Não foi possível acessar o microfone.';
+}
+
+/**
+ * Records from the microphone with MediaRecorder, exposing the input level for
+ * a meter and the elapsed time (pauses excluded). Recording stops on its own
+ * at MAX_RECORDING_SECONDS; the result is a File ready for the upload queue.
+ */
+export function useAudioRecorder() {
+  const [state, setState] = useState<RecorderState>('idle');
+  const [elapsed, setElapsed] = useState(0);
+  const [level, setLevel] = useState(0);
+  const [recording, setRecording] = useState<Recording | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [reachedLimit, setReachedLimit] = useState(false);
+
+  const recorderRef = useRef<MediaRecorder | null>(null);
+  const streamRef = useRef<MediaStream | null>(null);
+  const audioContextRef = useRef<AudioContext | null>(null);
+  const levelFrameRef = useRef<number | null>(null);
+  const timerRef = useRef<number | null>(null);
+  // Time recorded before the current run, and when the current run started
+  const recordedMsRef = useRef(0);
+  const runStartedAtRef = useRef<number | null>(null);
+  const recordingUrlRef = useRef<string | null>(null);
+
+  const getElapsedMs = () =>
+    recordedMsRef.current + (runStartedAtRef.current !== null ? Date.now() - runStartedAtRef.current : 0);
+
+  const releaseDevices = () => {
+    if (levelFrameRef.current !== null) {
+      cancelAnimationFrame(levelFrameRef.current);
+      levelFrameRef.current = null;
+    }
+    if (timerRef.current !== null) {
+      window.clearInterval(timerRef.current);
+      timerRef.current = null;
+    }
+    streamRef.current?.getTracks().forEach((track) => track.stop());
+    streamRef.current = null;
+    audioContextRef.current?.close().catch(() => {});
+    audioContextRef.current = null;
+    setLevel(0);
+  };
+
+  const revokeRecording = () => {
+    if (recordingUrlRef.current) {
+      URL.revokeObjectURL(recordingUrlRef.current);
+      recordingUrlRef.current = null;
+    }
+  };
+
+  const watchLevel = (stream: MediaStream) => {
+    const audioContext = new AudioContext();
+    const analyser = audioContext.createAnalyser();
+    analyser.fftSize = 1024;
+    audioContext.createMediaStreamSource(stream).connect(analyser);
+    audioContextRef.current = audioContext;
+
+    const samples = new Float32Array(analyser.fftSize);
+    const update = () => {
+      analyser.getFloatTimeDomainData(samples);
+      let sum = 0;
+      for (let i = 0; i < samples.length; i++) {
+        sum += samples[i] * samples[i];
+      }
+      // RMS of normal speech sits around 0.05-0.2, so scale it up for the meter
+      setLevel(recorderRef.current?.state === 'recording' ? Math.min(1, Math.sqrt(sum / samples.length) * 4) : 0);
+      levelFrameRef.current = requestAnimationFrame(update);
+    };
+    update();
+  };
+
+  const stop = () => {
+    const recorder = recorderRef.current;
+    if (recorder && recorder.state !== 'inactive') {
+      recorder.stop();
+    }
+  };
+
+  const start = async () => {
+    if (typeof MediaRecorder === 'undefined' || !navigator.mediaDevices?.getUserMedia) {
+      setError('Seu navegador não permite gravar áudio. Use uma versão recente do Chrome, Firefox ou Edge.');
+      return;
+    }
+
+    revokeRecording();
+    setRecording(null);
+    setError(null);
+    setReachedLimit(false);
+    setElapsed(0);
+    setState('requesting');
+
+    let stream: MediaStream;
+    try {
+      stream = await navigator.mediaDevices.getUserMedia({
+        audio: { echoCancellation: true, noiseSuppression: true },
+      });
+    } catch (err) {
+      setError(getMicrophoneError(err));
+      setState('idle');
+      return;
+    }
+
+    const mimeType = pickMimeType();
+    const recorder = new MediaRecorder(stream, { mimeType, audioBitsPerSecond: RECORDING_BITS_PER_SECOND });
+    const chunks: Blob[] = [];
+    const startedAt = new Date();
+
+    recorder.ondataavailable = (event) => {
+      if (event.data.size > 0) {
+        chunks.push(event.data);
+      }
+    };
+    recorder.onstop = () => {
+      const duration = getElapsedMs() / 1000;
+      runStartedAtRef.current = null;
+      releaseDevices();
+
+      // Drop codec parameters so the file type matches what the upload accepts
+      const type = (recorder.mimeType || mimeType || 'audio/webm').split(';')[0];
+      const file = new File(chunks, getRecordingFileName(type, startedAt), { type });
+      const url = URL.createObjectURL(file);
+      recordingUrlRef.current = url;
+      setElapsed(duration);
+      setRecording({ file, url, duration });
+      setState('stopped');
+    };
+
+    streamRef.current = stream;
+    recorderRef.current = recorder;
+    recordedMsRef.current = 0;
+    runStartedAtRef.current = Date.now();
+    // Collect data every second so a long recording is not held in a single buffer
+    recorder.start(1000);
+    watchLevel(stream);
+
+    timerRef.current = window.setInterval(() => {
+      const elapsedMs = getElapsedMs();
+      setElapsed(elapsedMs / 1000);
+      if (elapsedMs >= MAX_RECORDING_SECONDS * 1000) {
+        setReachedLimit(true);
+        stop();
+      }
+    }, 250);
+    setState('recording');
+  };
+
+  const pause = () => {
+    const recorder = recorderRef.current;
+    if (recorder?.state === 'recording') {
+      recorder.pause();
+      recordedMsRef.current = getElapsedMs();
+      runStartedAtRef.current = null;
+      setState('paused');
+    }
+  };
+
+  const resume = () => {
+    const recorder = recorderRef.current;
+    if (recorder?.state === 'paused') {
+      recorder.resume();
+      runStartedAtRef.current = Date.now();
+      setState('recording');
+    }
+  };
+
+  // Forget the last recording and release its preview; a File already queued stays usable
+  const discard = () => {
+    revokeRecording();
+    setRecording(null);
+    setElapsed(0);
+    setReachedLimit(false);
+    setState('idle');
+  };
+
+  useEffect(() => {
+    return () => {
+      const recorder = recorderRef.current;
+      if (recorder && recorder.state !== 'inactive') {
+        recorder.onstop = null;
+        recorder.stop();
+      }
+      releaseDevices();
+      revokeRecording();
+    };
+  }, []);
+
+  return {
+    state,
+    elapsed,
+    level,
+    recording,
+    error,
+    reachedLimit,
+    start,
+    pause,
+    resume,
+    stop,
+    discard,
+  };
+}
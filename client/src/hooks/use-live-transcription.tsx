@@ -0,0 +1,251 @@
+import { useEffect, useRef, useState } from "react";
+import { getMicrophoneError } from "@/hooks/use-audio-recorder";
+import {
+  liveServerMessageSchema,
+  LIVE_SAMPLE_RATE,
+  LIVE_TRANSCRIPTION_PATH,
+  type LanguageOption,
+  type TranscriptSegment,
+  type TranscriptionResponse,
+} from "@shared/schema";
+
+export type LiveState = 'idle' | 'connecting' | 'live' | 'finishing';
+
+// Audio is sent in frames of this many samples (250 ms)
+const FRAME_SAMPLES = LIVE_SAMPLE_RATE / 4;
+
+// Copies each block of microphone samples to the main thread
+const CAPTURE_WORKLET = `
+class LiveCaptureProcessor extends AudioWorkletProcessor {
+  process(inputs) {
+    const channel = inputs[0] && inputs[0][0];
+    if (channel) {
+      this.port.postMessage(channel.slice(0));
+    }
+    return true;
+  }
+}
+registerProcessor('live-capture', LiveCaptureProcessor);
+`;
+
+// Turn microphone samples at the context's rate into 16-bit PCM at
+// LIVE_SAMPLE_RATE, averaging the samples that fall on each output sample
+function createPcmEncoder(inputRate: number) {
+  const ratio = inputRate / LIVE_SAMPLE_RATE;
+  let leftover = new Float32Array(0);
+
+  return (input: Float32Array): Int16Array => {
+    const samples = new Float32Array(leftover.length + input.length);
+    samples.set(leftover);
+    samples.set(input, leftover.length);
+
+    const count = Math.floor(samples.length / ratio);
+    const output = new Int16Array(count);
+    for (let i = 0; i < count; i++) {
+      const from = Math.floor(i * ratio);
+      const to = Math.max(from + 1, Math.floor((i + 1) * ratio));
+      let sum = 0;
+      for (let j = from; j < to; j++) {
+        sum += samples[j];
+      }
+      output[i] = Math.max(-1, Math.min(1, sum / (to - from))) * 0x7fff;
+    }
+    leftover = samples.slice(Math.floor(count * ratio));
+    return output;
+  };
+}
+
+function getLiveSocketUrl(): string {
+  const protocol = window.location.protocol === 'https:' ? 'wss:' : 'ws:';
+  return `${protocol}//${window.location.host}${LIVE_TRANSCRIPTION_PATH}`;
+}
+
+interface UseLiveTranscriptionProps {
+  onSaved: (transcription: TranscriptionResponse) => void;
+}
+
+/**
+ * Streams the microphone to the server as it is spoken and collects the text
+ * that comes back: final segments that will not change and a partial guess for
+ * the last few seconds. Stopping waits for the server to finish the remaining
+ * audio and save the session as a transcription.
+ */
+export function useLiveTranscription({ onSaved }: UseLiveTranscriptionProps) {
+  const [state, setState] = useState<LiveState>('idle');
+  const [segments, setSegments] = useState<TranscriptSegment[]>([]);
+  const [partialText, setPartialText] = useState('');
+  const [elapsed, setElapsed] = useState(0);
+  const [error, setError] = useState<string | null>(null);
+  const [warning, setWarning] = useState<string | null>(null);
+
+  const socketRef = useRef<WebSocket | null>(null);
+  const streamRef = useRef<MediaStream | null>(null);
+  const audioContextRef = useRef<AudioContext | null>(null);
+  // Set once the session is over on purpose, so the socket closing is not reported as a failure
+  const endedRef = useRef(false);
+  const onSavedRef = useRef(onSaved);
+  onSavedRef.current = onSaved;
+
+  const releaseMicrophone = () => {
+    streamRef.current?.getTracks().forEach((track) => track.stop());
+    streamRef.current = null;
+    audioContextRef.current?.close().catch(() => {});
+    audioContextRef.current = null;
+  };
+
+  const end = (message?: string) => {
+    endedRef.current = true;
+    releaseMicrophone();
+    socketRef.current?.close();
+    socketRef.current = null;
+    if (message) {
+      setError(message);
+    }
+    setState('idle');
+  };
+
+  const startCapture = async (stream: MediaStream, socket: WebSocket) => {
+    const audioContext = new AudioContext();
+    audioContextRef.current = audioContext;
+    const workletUrl = URL.createObjectURL(new Blob([CAPTURE_WORKLET], { type: 'application/javascript' }));
+    try {
+      await audioContext.audioWorklet.addModule(workletUrl);
+    } finally {
+      URL.revokeObjectURL(workletUrl);
+    }
+
+    const encode = createPcmEncoder(audioContext.sampleRate);
+    const capture = new AudioWorkletNode(audioContext, 'live-capture');
+    let frame: Int16Array[] = [];
+    let frameSamples = 0;
+    let sentSamples = 0;
+
+    capture.port.onmessage = (event: MessageEvent<Float32Array>) => {
+      const pcm = encode(event.data);
+      frame.push(pcm);
+      frameSamples += pcm.length;
+      if (frameSamples < FRAME_SAMPLES || socket.readyState !== WebSocket.OPEN) {
+        return;
+      }
+
+      const data = new Int16Array(frameSamples);
+      let offset = 0;
+      for (const part of frame) {
+        data.set(part, offset);
+        offset += part.length;
+      }
+      socket.send(data.buffer);
+      sentSamples += frameSamples;
+      frame = [];
+      frameSamples = 0;
+      setElapsed(sentSamples / LIVE_SAMPLE_RATE);
+    };
+
+    audioContext.createMediaStreamSource(stream).connect(capture);
+    // The node only runs while connected to an output; it writes nothing, so this stays silent
+    capture.connect(audioContext.destination);
+  };
+
+  const start = async (language: LanguageOption) => {
+    if (typeof AudioWorkletNode === 'undefined' || !navigator.mediaDevices?.getUserMedia) {
+      setError('Seu navegador não permite transcrição ao vivo. Use uma versão recente do Chrome, Firefox ou Edge.');
+      return;
+    }
+
+    setSegments([]);
+    setPartialText('');
+    setElapsed(0);
+    setError(null);
+    setWarning(null);
+    setState('connecting');
+    endedRef.current = false;
+
+    try {
+      streamRef.current = await navigator.mediaDevices.getUserMedia({
+        audio: { echoCancellation: true, noiseSuppression: true, channelCount: 1 },
+      });
+    } catch (err) {
+      end(getMicrophoneError(err));
+      return;
+    }
+
+    const socket = new WebSocket(getLiveSocketUrl());
+    socket.binaryType = 'arraybuffer';
+    socketRef.current = socket;
+
+    socket.onopen = () => socket.send(JSON.stringify({ type: 'start', language }));
+    socket.onmessage = (event) => {
+      const parsed = typeof event.data === 'string'
+        ? liveServerMessageSchema.safeParse(JSON.parse(event.data))
+        : null;
+      if (!parsed?.success) {
+        return;
+      }
+
+      const message = parsed.data;
+      switch (message.type) {
+        case 'ready':
+          startCapture(streamRef.current!, socket)
+            .then(() => setState('live'))
+            .catch((err) => {
+              console.error('Could not capture microphone audio:', err);
+              end('Não foi possível capturar o áudio do microfone.');
+            });
+          break;
+        case 'partial':
+          setPartialText(message.text);
+          break;
+        case 'final':
+          setSegments((current) => [...current, ...message.segments]);
+          break;
+        case 'saved':
+          end();
+          onSavedRef.current(message.transcription);
+          break;
+        case 'error':
+          if (message.fatal) {
+            end(message.message);
+          } else {
+            setWarning(message.message);
+          }
+          break;
+      }
+    };
+    socket.onclose = () => {
+      if (!endedRef.current) {
+        end('A conexão com o servidor foi perdida. O que já foi transcrito fica salvo no histórico.');
+      }
+    };
+  };
+
+  // Stop listening; the server transcribes what is left and answers with the saved transcription
+  const stop = () => {
+    releaseMicrophone();
+    const socket = socketRef.current;
+    if (socket?.readyState === WebSocket.OPEN) {
+      socket.send(JSON.stringify({ type: 'stop' }));
+      setState('finishing');
+    } else {
+      end();
+    }
+  };
+
+  useEffect(() => {
+    return () => {
+      endedRef.current = true;
+      releaseMicrophone();
+      socketRef.current?.close();
+    };
+  }, []);
+
+  return {
+    state,
+    segments,
+    partialText,
+    elapsed,
+    error,
+    warning,
+    start,
+    stop,
+  };
+}
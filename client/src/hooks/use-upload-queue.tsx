@@ -0,0 +1,168 @@
+import { useRef, useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { queryClient } from "@/lib/queryClient";
+import { watchJob } from "@/lib/jobs";
+import {
+  startResumableUpload,
+  startTranscription,
+  type ResumableUpload,
+  type UploadOptions,
+  type UploadStatus,
+} from "@/lib/uploads";
+import type { TranscriptionJob, TranscriptionResponse } from "@shared/schema";
+
+export type QueueItemState = 'waiting' | UploadStatus | 'processing' | 'done' | 'failed';
+
+export interface QueueItem {
+  id: string;
+  file: File;
+  state: QueueItemState;
+  uploadProgress: number;
+  job?: TranscriptionJob; // latest server-side progress, once the file is uploaded
+  result?: TranscriptionResponse;
+  error?: string;
+}
+
+export const DEFAULT_QUEUE_CONCURRENCY = 2;
+
+interface UseUploadQueueProps {
+  onStart: (items: QueueItem[], options: UploadOptions) => void;
+  onUploadProgress?: (item: QueueItem, progress: number) => void;
+  onJobUpdate?: (item: QueueItem, job: TranscriptionJob) => void;
+  onComplete: (items: QueueItem[]) => void;
+}
+
+let nextItemId = 0;
+
+/**
+ * Keeps a list of files to transcribe and, once started, uploads and
+ * transcribes them with at most `concurrency` files in flight. Files are
+ * processed independently: one failing does not stop the rest of the batch.
+ */
+export function useUploadQueue({ onStart, onUploadProgress, onJobUpdate, onComplete }: UseUploadQueueProps) {
+  const [items, setItems] = useState<QueueItem[]>([]);
+  const [concurrency, setConcurrency] = useState(DEFAULT_QUEUE_CONCURRENCY);
+  // Uploads still in progress, so they can be paused and resumed from the queue view
+  const uploads = useRef(new Map<string, ResumableUpload>());
+
+  const updateItem = (id: string, update: Partial<QueueItem>) => {
+    setItems((current) => current.map((item) => (item.id === id ? { ...item, ...update } : item)));
+  };
+
+  const processItem = async (item: QueueItem, options: UploadOptions): Promise<QueueItem> => {
+    try {
+      const upload = startResumableUpload(item.file, {
+        onProgress: (uploadProgress) => {
+          updateItem(item.id, { uploadProgress });
+          onUploadProgress?.(item, uploadProgress);
+        },
+        onStatusChange: (state) => updateItem(item.id, { state }),
+      });
+      uploads.current.set(item.id, upload);
+      const uploadId = await upload.done;
+      uploads.current.delete(item.id);
+      updateItem(item.id, { state: 'processing', uploadProgress: 100 });
+
+      // The server answers right away with a job; follow its progress until it finishes
+      const handleJobUpdate = (job: TranscriptionJob) => {
+        updateItem(item.id, { job });
+        onJobUpdate?.(item, job);
+      };
+      const createdJob = await startTranscription(uploadId, options);
+      handleJobUpdate(createdJob);
+
+      const job = await watchJob(createdJob.id, handleJobUpdate);
+
+      if (job.state === 'failed' || !job.result) {
+        throw new Error(job.error || 'Erro ao processar arquivo');
+      }
+
+      const done = { ...item, state: 'done' as const, job, result: job.result };
+      updateItem(item.id, done);
+      return done;
+    } catch (error) {
+      uploads.current.delete(item.id);
+      const failed = { ...item, state: 'failed' as const, error: (error as Error).message || 'Erro ao processar arquivo' };
+      updateItem(item.id, failed);
+      return failed;
+    }
+  };
+
+  const batchMutation = useMutation({
+    mutationFn: async ({ batch, options }: { batch: QueueItem[]; options: UploadOptions }): Promise<QueueItem[]> => {
+      const results: QueueItem[] = new Array(batch.length);
+      let nextIndex = 0;
+
+      // Each worker keeps taking the next waiting file until none are left
+      const worker = async () => {
+        while (nextIndex < batch.length) {
+          const index = nextIndex++;
+          results[index] = await processItem(batch[index], options);
+        }
+      };
+
+      const workerCount = Math.min(Math.max(1, concurrency), batch.length);
+      await Promise.all(Array.from({ length: workerCount }, worker));
+      return results;
+    },
+    onMutate: ({ batch, options }) => {
+      onStart(batch, options);
+    },
+    onSuccess: (results) => {
+      // New transcriptions were saved, so any cached history listing is out of date
+      queryClient.invalidateQueries({ queryKey: ['/api/transcriptions'] });
+      onComplete(results);
+    },
+  });
+
+  const addFiles = (files: File[]) => {
+    setItems((current) => [
+      ...current,
+      ...files.map((file) => ({
+        id: String(nextItemId++),
+        file,
+        state: 'waiting' as const,
+        uploadProgress: 0,
+      })),
+    ]);
+  };
+
+  const removeItem = (id: string) => {
+    setItems((current) => current.filter((item) => item.id !== id));
+  };
+
+  const clear = () => {
+    setItems([]);
+  };
+
+  // Files that finished or failed in an earlier run are left alone
+  const waitingItems = items.filter((item) => item.state === 'waiting');
+
+  const start = async (options: UploadOptions) => {
+    if (waitingItems.length > 0) {
+      await batchMutation.mutateAsync({ batch: waitingItems, options });
+    }
+  };
+
+  const pauseItem = (id: string) => {
+    uploads.current.get(id)?.pause();
+  };
+
+  const resumeItem = (id: string) => {
+    uploads.current.get(id)?.resume();
+  };
+
+  return {
+    items,
+    waitingCount: waitingItems.length,
+    concurrency,
+    setConcurrency,
+    addFiles,
+    removeItem,
+    clear,
+    start,
+    pauseItem,
+    resumeItem,
+    isRunning: batchMutation.isPending,
+  };
+}
@@ -0,0 +1,20 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { formatTimestamp } from "../file-utils";
+
+describe("formatTimestamp", () => {
+  it("shows minutes and seconds below one hour", () => {
+    assert.equal(formatTimestamp(0), "0:00");
+    assert.equal(formatTimestamp(9.9), "0:09");
+    assert.equal(formatTimestamp(75), "1:15");
+    assert.equal(formatTimestamp(3599), "59:59");
+    assert.equal(formatTimestamp(3599.99), "59:59");
+  });
+
+  it("adds hours from one hour on", () => {
+    assert.equal(formatTimestamp(3600), "1:00:00");
+    assert.equal(formatTimestamp(3661), "1:01:01");
+    assert.equal(formatTimestamp(4523), "1:15:23");
+    assert.equal(formatTimestamp(36000), "10:00:00");
+  });
+});
@@ -0,0 +1,51 @@
+import type { TranscriptionJob } from "@shared/schema";
+
+export async function fetchJob(jobId: string): Promise<TranscriptionJob> {
+  const response = await fetch(`/api/jobs/${jobId}`);
+
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}));
+    throw new Error(errorData.error || 'Erro ao consultar o andamento da transcrição');
+  }
+
+  return response.json();
+}
+
+// Follow a job's progress events until the server reports it as done or failed
+export function watchJob(jobId: string, onUpdate: (job: TranscriptionJob) => void): Promise<TranscriptionJob> {
+  return new Promise((resolve, reject) => {
+    const events = new EventSource(`/api/jobs/${jobId}/events`);
+
+    const finish = (job: TranscriptionJob) => {
+      events.close();
+      resolve(job);
+    };
+
+    events.onmessage = (event) => {
+      const job: TranscriptionJob = JSON.parse(event.data);
+      onUpdate(job);
+      if (job.state === 'done' || job.state === 'failed') {
+        finish(job);
+      }
+    };
+
+    // EventSource reconnects by itself after transient drops; only give up once it
+    // has closed for good, checking the job one last time in case it already finished
+    events.onerror = () => {
+      if (events.readyState !== EventSource.CLOSED) {
+        return;
+      }
+
+      fetchJob(jobId)
+        .then((job) => {
+          onUpdate(job);
+          if (job.state === 'done' || job.state === 'failed') {
+            finish(job);
+          } else {
+            reject(new Error('Conexão com o servidor perdida durante o processamento'));
+          }
+        })
+        .catch(reject);
+    };
+  });
+}
@@ -0,0 +1,147 @@
+import Uppy from "@uppy/core";
+import Tus from "@uppy/tus";
+import type { AudioEnhancement, LanguageOption, TranscriptionJob, TranscriptionTask } from "@shared/schema";
+
+export interface UploadOptions {
+  language: LanguageOption;
+  task: TranscriptionTask;
+  enhancements: AudioEnhancement[];
+  skipSilence: boolean;
+  diarize: boolean;
+}
+
+// 'interrupted' means the connection failed after every automatic retry; the
+// bytes already sent are kept on the server and the upload can still be resumed
+export type UploadStatus = 'uploading' | 'paused' | 'interrupted';
+
+export interface ResumableUpload {
+  // Resolves with the tus upload id once every byte is stored on the server
+  done: Promise<string>;
+  pause(): void;
+  // Continues from the last byte the server confirmed, after a pause or a dropped connection
+  resume(): void;
+}
+
+interface ResumableUploadCallbacks {
+  onProgress: (percent: number) => void;
+  onStatusChange: (status: UploadStatus) => void;
+}
+
+const RESUMABLE_UPLOAD_ENDPOINT = '/api/uploads';
+
+// Sent as separate requests so a dropped connection only loses the chunk in flight
+const UPLOAD_CHUNK_SIZE_BYTES = 5 * 1024 * 1024;
+
+// Field connections drop often; keep retrying for about a minute before asking the user
+const UPLOAD_RETRY_DELAYS_MS = [0, 1000, 3000, 5000, 10000, 20000, 30000];
+
+// The upload id is the last part of the URL the tus server assigned
+function getUploadId(uploadURL: string): string {
+  return uploadURL.split('/').filter(Boolean).pop()!;
+}
+
+// The tus client attaches the server's response to errors it could not recover from
+function getRejectedUploadMessage(error: unknown): string | null {
+  const response = (error as { originalResponse?: { getStatus(): number; getBody(): string } })
+    .originalResponse;
+  const status = response?.getStatus();
+
+  // Conflicts, locks and rate limits clear up on their own, so those uploads can still resume
+  if (!status || status < 400 || status >= 500 || [409, 423, 429].includes(status)) {
+    return null;
+  }
+  if (status === 413) {
+    return 'Arquivo muito grande. O tamanho máximo é 100MB para áudio e 1GB para vídeo.';
+  }
+  return response?.getBody() || 'Erro no upload do arquivo. Tente novamente.';
+}
+
+/**
+ * Sends a file through the tus endpoint in chunks. Each upload gets its own
+ * Uppy instance, so several files can be sent, paused and resumed independently.
+ */
+export function startResumableUpload(file: File, { onProgress, onStatusChange }: ResumableUploadCallbacks): ResumableUpload {
+  const uppy = new Uppy({ autoProceed: false, restrictions: { maxNumberOfFiles: 1 } })
+    .use(Tus, {
+      endpoint: RESUMABLE_UPLOAD_ENDPOINT,
+      chunkSize: UPLOAD_CHUNK_SIZE_BYTES,
+      retryDelays: UPLOAD_RETRY_DELAYS_MS,
+    });
+  let interrupted = false;
+  let settled = false;
+
+  const done = new Promise<string>((resolve, reject) => {
+    uppy.on('upload-progress', (uploaded, progress) => {
+      if (progress.bytesTotal) {
+        onProgress(Math.round((progress.bytesUploaded / progress.bytesTotal) * 100));
+      }
+    });
+
+    uppy.on('upload-success', (uploaded, response) => {
+      if (response.uploadURL) {
+        settled = true;
+        resolve(getUploadId(response.uploadURL));
+      }
+    });
+
+    uppy.on('upload-error', (uploaded, error) => {
+      const message = getRejectedUploadMessage(error);
+      if (message) {
+        settled = true;
+        reject(new Error(message));
+      } else {
+        interrupted = true;
+        onStatusChange('interrupted');
+      }
+    });
+
+    // Release the uploader once the file was stored or refused for good, but
+    // keep it after an interruption so the upload can still be resumed
+    uppy.on('complete', () => {
+      if (settled) {
+        uppy.destroy();
+      }
+    });
+
+    uppy.addFile({ name: file.name, type: file.type, data: file, source: 'Local' });
+    onStatusChange('uploading');
+    uppy.upload().catch((error) => {
+      settled = true;
+      uppy.destroy();
+      reject(error);
+    });
+  });
+
+  return {
+    done,
+    pause: () => {
+      uppy.pauseAll();
+      onStatusChange('paused');
+    },
+    resume: () => {
+      if (interrupted) {
+        interrupted = false;
+        uppy.retryAll();
+      } else {
+        uppy.resumeAll();
+      }
+      onStatusChange('uploading');
+    },
+  };
+}
+
+// Queue a finished upload for transcription, returning the job that tracks it
+export async function startTranscription(uploadId: string, options: UploadOptions): Promise<TranscriptionJob> {
+  const response = await fetch(`${RESUMABLE_UPLOAD_ENDPOINT}/${uploadId}/transcribe`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(options),
+  });
+
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}));
+    throw new Error(errorData.error || 'Erro ao processar arquivo');
+  }
+
+  return response.json();
+}
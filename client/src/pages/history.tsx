@@ -0,0 +1,392 @@
+import { useState } from "react";
+import { Link, useLocation, useRoute } from "wouter";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { ChevronLeft, ChevronRight, History as HistoryIcon, Plus } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import {
+  Pagination,
+  PaginationContent,
+  PaginationItem,
+  PaginationLink,
+} from "@/components/ui/pagination";
+import {
+  Sidebar,
+  SidebarContent,
+  SidebarGroup,
+  SidebarGroupContent,
+  SidebarGroupLabel,
+  SidebarHeader,
+  SidebarInput,
+  SidebarInset,
+  SidebarMenu,
+  SidebarMenuButton,
+  SidebarMenuItem,
+  SidebarProvider,
+  SidebarTrigger,
+} from "@/components/ui/sidebar";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { TranscriptionResults } from "@/components/transcription-results";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import type {
+  TranscriptionListResponse,
+  TranscriptionResponse,
+  TranscriptionSummary,
+} from "@shared/schema";
+
+const PAGE_SIZE = 20;
+
+type SortOrder = "asc" | "desc";
+
+interface HistoryFilters {
+  filename: string;
+  search: string;
+  sort: SortOrder;
+}
+
+async function fetchTranscriptions(page: number, filters: HistoryFilters): Promise<TranscriptionListResponse> {
+  const params = new URLSearchParams({
+    page: String(page),
+    pageSize: String(PAGE_SIZE),
+    sort: filters.sort,
+  });
+  if (filters.filename) params.set("filename", filters.filename);
+  if (filters.search) params.set("search", filters.search);
+
+  const response = await fetch(`/api/transcriptions?${params}`);
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}));
+    throw new Error(errorData.error || "Erro ao buscar transcrições");
+  }
+
+  return response.json();
+}
+
+const formatDuration = (duration?: number) => {
+  if (!duration) return "N/A";
+  const minutes = Math.floor(duration / 60);
+  const seconds = Math.floor(duration % 60);
+  return `${minutes}:${seconds.toString().padStart(2, '0')}`;
+};
+
+const formatDate = (isoDate: string) => {
+  return new Date(isoDate).toLocaleString("pt-BR", {
+    dateStyle: "short",
+    timeStyle: "short",
+  });
+};
+
+export default function History() {
+  const [, setLocation] = useLocation();
+  const { toast } = useToast();
+  const [page, setPage] = useState(1);
+  const [filters, setFilters] = useState<HistoryFilters>({ filename: "", search: "", sort: "desc" });
+  const [filenameInput, setFilenameInput] = useState("");
+  const [searchInput, setSearchInput] = useState("");
+  // The open transcription lives in the URL so other pages can link straight to it
+  const [, params] = useRoute<{ id: string }>("/history/:id");
+  const selectedId = params?.id ?? null;
+  const setSelectedId = (id: string | null) => setLocation(id ? `/history/${id}` : "/history");
+  const [pendingDelete, setPendingDelete] = useState<TranscriptionSummary | null>(null);
+
+  const listQuery = useQuery({
+    queryKey: ["/api/transcriptions", { page, ...filters }],
+    queryFn: () => fetchTranscriptions(page, filters),
+  });
+
+  const selectedQuery = useQuery<TranscriptionResponse>({
+    queryKey: ["/api/transcriptions", selectedId],
+    enabled: selectedId !== null,
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest("DELETE", `/api/transcriptions/${id}`);
+    },
+    onSuccess: (_data, id) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/transcriptions"] });
+      if (selectedId === id) {
+        setSelectedId(null);
+      }
+      toast({
+        title: "Transcrição excluída",
+        description: "A transcrição foi removida do histórico.",
+      });
+    },
+    onError: () => {
+      toast({
+        title: "Erro ao excluir",
+        description: "Não foi possível excluir a transcrição. Tente novamente.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleApplyFilters = (e: React.FormEvent) => {
+    e.preventDefault();
+    setFilters({ ...filters, filename: filenameInput.trim(), search: searchInput.trim() });
+    setPage(1);
+  };
+
+  const handleToggleSort = () => {
+    setFilters({ ...filters, sort: filters.sort === "desc" ? "asc" : "desc" });
+    setPage(1);
+  };
+
+  const handleConfirmDelete = () => {
+    if (pendingDelete) {
+      deleteMutation.mutate(pendingDelete.id);
+    }
+    setPendingDelete(null);
+  };
+
+  const totalPages = listQuery.data ? Math.max(1, Math.ceil(listQuery.data.total / PAGE_SIZE)) : 1;
+
+  return (
+    <SidebarProvider>
+      <Sidebar>
+        <SidebarHeader>
+          <div className="flex items-center space-x-2 px-2 py-1">
+            <HistoryIcon className="w-5 h-5 text-primary" />
+            <span className="font-semibold text-gray-900">Histórico</span>
+          </div>
+        </SidebarHeader>
+        <SidebarContent>
+          <SidebarGroup>
+            <SidebarGroupContent>
+              <SidebarMenu>
+                <SidebarMenuItem>
+                  <SidebarMenuButton asChild>
+                    <Link href="/" data-testid="link-new-transcription">
+                      <Plus />
+                      <span>Nova Transcrição</span>
+                    </Link>
+                  </SidebarMenuButton>
+                </SidebarMenuItem>
+              </SidebarMenu>
+            </SidebarGroupContent>
+          </SidebarGroup>
+
+          <SidebarGroup>
+            <SidebarGroupLabel>Filtros</SidebarGroupLabel>
+            <SidebarGroupContent>
+              <form onSubmit={handleApplyFilters} className="space-y-2 px-2">
+                <SidebarInput
+                  placeholder="Nome do arquivo"
+                  value={filenameInput}
+                  onChange={(e) => setFilenameInput(e.target.value)}
+                  data-testid="input-filter-filename"
+                />
+                <SidebarInput
+                  placeholder="Buscar no texto"
+                  value={searchInput}
+                  onChange={(e) => setSearchInput(e.target.value)}
+                  data-testid="input-filter-search"
+                />
+                <Button type="submit" size="sm" className="w-full" data-testid="button-apply-filters">
+                  Buscar
+                </Button>
+              </form>
+            </SidebarGroupContent>
+          </SidebarGroup>
+        </SidebarContent>
+      </Sidebar>
+
+      <SidebarInset className="bg-gray-50">
+        <header className="flex items-center space-x-2 border-b border-gray-200 bg-white px-4 py-3">
+          <SidebarTrigger />
+          <h1 className="text-lg font-semibold text-gray-900">Transcrições Anteriores</h1>
+        </header>
+
+        <main className="p-4 sm:p-6 space-y-6">
+          {selectedId && (
+            <div className="space-y-4">
+              <Button variant="outline" onClick={() => setSelectedId(null)} data-testid="button-back-to-list">
+                <ChevronLeft className="w-4 h-4 mr-2" />
+                Voltar à lista
+              </Button>
+              {selectedQuery.isLoading && (
+                <p className="text-sm text-secondary">Carregando transcrição...</p>
+              )}
+              {selectedQuery.isError && (
+                <p className="text-sm text-error">Não foi possível carregar a transcrição.</p>
+              )}
+              {selectedQuery.data && (
+                <TranscriptionResults
+                  transcription={selectedQuery.data}
+                  onNewTranscription={() => setLocation("/")}
+                />
+              )}
+            </div>
+          )}
+
+          {!selectedId && (
+            <Card>
+              <CardContent className="p-0">
+                <Table data-testid="table-transcriptions">
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Arquivo</TableHead>
+                      <TableHead>
+                        <button
+                          type="button"
+                          onClick={handleToggleSort}
+                          className="font-medium hover:text-gray-900"
+                          data-testid="button-sort-date"
+                        >
+                          Data {filters.sort === "desc" ? "↓" : "↑"}
+                        </button>
+                      </TableHead>
+                      <TableHead>Duração</TableHead>
+                      <TableHead>Palavras</TableHead>
+                      <TableHead className="text-right">Ações</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {listQuery.isLoading && (
+                      <TableRow>
+                        <TableCell colSpan={5} className="text-center text-secondary">
+                          Carregando...
+                        </TableCell>
+                      </TableRow>
+                    )}
+                    {listQuery.isError && (
+                      <TableRow>
+                        <TableCell colSpan={5} className="text-center text-error">
+                          Não foi possível carregar o histórico.
+                        </TableCell>
+                      </TableRow>
+                    )}
+                    {listQuery.data?.items.length === 0 && (
+                      <TableRow>
+                        <TableCell colSpan={5} className="text-center text-secondary">
+                          Nenhuma transcrição encontrada.
+                        </TableCell>
+                      </TableRow>
+                    )}
+                    {listQuery.data?.items.map((item) => (
+                      <TableRow key={item.id} data-testid={`row-transcription-${item.id}`}>
+                        <TableCell>
+                          <p className="font-medium text-gray-900">
+                            {item.filename}
+                            {item.status === "partial" && (
+                              <Badge variant="outline" className="ml-2 text-warning border-warning" data-testid={`badge-partial-${item.id}`}>
+                                Parcial
+                              </Badge>
+                            )}
+                          </p>
+                          <p className="text-xs text-secondary line-clamp-1">{item.preview}</p>
+                        </TableCell>
+                        <TableCell className="whitespace-nowrap">{formatDate(item.createdAt)}</TableCell>
+                        <TableCell>{formatDuration(item.duration)}</TableCell>
+                        <TableCell>{item.wordCount}</TableCell>
+                        <TableCell className="text-right whitespace-nowrap space-x-2">
+                          <Button
+                            size="sm"
+                            onClick={() => setSelectedId(item.id)}
+                            data-testid={`button-open-${item.id}`}
+                          >
+                            Abrir
+                          </Button>
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            onClick={() => setPendingDelete(item)}
+                            disabled={deleteMutation.isPending}
+                            data-testid={`button-delete-${item.id}`}
+                          >
+                            Excluir
+                          </Button>
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </CardContent>
+            </Card>
+          )}
+
+          {!selectedId && totalPages > 1 && (
+            <Pagination>
+              <PaginationContent>
+                <PaginationItem>
+                  <PaginationLink
+                    href="#"
+                    size="default"
+                    className="gap-1 pl-2.5"
+                    onClick={(e) => {
+                      e.preventDefault();
+                      setPage(Math.max(1, page - 1));
+                    }}
+                    aria-disabled={page === 1}
+                    data-testid="button-previous-page"
+                  >
+                    <ChevronLeft className="h-4 w-4" />
+                    <span>Anterior</span>
+                  </PaginationLink>
+                </PaginationItem>
+                <PaginationItem>
+                  <span className="px-4 text-sm text-secondary" data-testid="text-page">
+                    Página {page} de {totalPages}
+                  </span>
+                </PaginationItem>
+                <PaginationItem>
+                  <PaginationLink
+                    href="#"
+                    size="default"
+                    className="gap-1 pr-2.5"
+                    onClick={(e) => {
+                      e.preventDefault();
+                      setPage(Math.min(totalPages, page + 1));
+                    }}
+                    aria-disabled={page === totalPages}
+                    data-testid="button-next-page"
+                  >
+                    <span>Próxima</span>
+                    <ChevronRight className="h-4 w-4" />
+                  </PaginationLink>
+                </PaginationItem>
+              </PaginationContent>
+            </Pagination>
+          )}
+        </main>
+      </SidebarInset>
+
+      <AlertDialog open={pendingDelete !== null} onOpenChange={(open) => !open && setPendingDelete(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Excluir transcrição?</AlertDialogTitle>
+            <AlertDialogDescription>
+              A transcrição de "{pendingDelete?.filename}" será removida permanentemente.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancelar</AlertDialogCancel>
+            <AlertDialogAction onClick={handleConfirmDelete} data-testid="button-confirm-delete">
+              Excluir
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </SidebarProvider>
+  );
+}
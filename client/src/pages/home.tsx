@@ -1,21 +1,44 @@
 import { useState } from "react";
+import { Link } from "wouter";
 import { FileUpload } from "@/components/file-upload";
 import { ProcessingStatus } from "@/components/processing-status";
 import { TranscriptionResults } from "@/components/transcription-results";
 import { ErrorDisplay } from "@/components/error-display";
-import type { TranscriptionResponse } from "@shared/schema";
+import { BatchSummary } from "@/components/batch-summary";
+import type { QueueItem } from "@/hooks/use-upload-queue";
+import type { UploadOptions } from "@/lib/uploads";
+import type { JobChunk, JobState, TranscriptionJob, TranscriptionResponse } from "@shared/schema";
 
-type AppState = 'upload' | 'processing' | 'results' | 'error';
+type AppState = 'upload' | 'processing' | 'results' | 'batch' | 'error';
 
 export default function Home() {
   const [state, setState] = useState<AppState>('upload');
   const [transcription, setTranscription] = useState<TranscriptionResponse | null>(null);
   const [error, setError] = useState<string>("");
   const [progress, setProgress] = useState(0);
+  const [uploadProgress, setUploadProgress] = useState(0);
+  const [jobState, setJobState] = useState<JobState | null>(null);
+  const [jobMessage, setJobMessage] = useState<string | undefined>();
+  const [jobChunks, setJobChunks] = useState<JobChunk[] | undefined>();
+  const [batchSize, setBatchSize] = useState(0);
+  const [batchItems, setBatchItems] = useState<QueueItem[]>([]);
+  const [uploadOptions, setUploadOptions] = useState<UploadOptions | undefined>();
 
-  const handleUploadStart = () => {
+  const handleUploadStart = (fileCount: number, options: UploadOptions) => {
     setState('processing');
+    setBatchSize(fileCount);
+    setUploadOptions(options);
+    setUploadProgress(0);
     setProgress(0);
+    setJobState(null);
+    setJobMessage(undefined);
+    setJobChunks(undefined);
+  };
+
+  const handleJobUpdate = (job: TranscriptionJob) => {
+    setJobState(job.state);
+    setJobMessage(job.message);
+    setJobChunks(job.chunks);
   };
 
   const handleUploadSuccess = (result: TranscriptionResponse) => {
@@ -24,6 +47,11 @@ export default function Home() {
     setProgress(100);
   };
 
+  const handleBatchComplete = (items: QueueItem[]) => {
+    setBatchItems(items);
+    setState('batch');
+  };
+
   const handleUploadError = (errorMessage: string) => {
     setError(errorMessage);
     setState('error');
@@ -34,7 +62,13 @@ export default function Home() {
     setState('upload');
     setTranscription(null);
     setError("");
+    setUploadProgress(0);
     setProgress(0);
+    setJobState(null);
+    setJobMessage(undefined);
+    setJobChunks(undefined);
+    setBatchSize(0);
+    setBatchItems([]);
   };
 
   return (
@@ -54,43 +88,60 @@ export default function Home() {
                 <p className="text-sm text-secondary">Transcrição rápida de áudio</p>
               </div>
             </div>
-            <div className="flex items-center space-x-2 text-sm text-secondary">
-              <svg className="w-4 h-4" viewBox="0 0 24 24" fill="currentColor">
-                <path d="M12 1L3 5v6c0 5.55 3.84 10.74 9 12 5.16-1.26 9-6.45 9-12V5l-9-4z"/>
-              </svg>
-              <span>Seguro & Privado</span>
+            <div className="flex items-center space-x-6 text-sm text-secondary">
+              <Link href="/history" className="font-medium text-primary hover:underline" data-testid="link-history">
+                Histórico
+              </Link>
+              <div className="flex items-center space-x-2">
+                <svg className="w-4 h-4" viewBox="0 0 24 24" fill="currentColor">
+                  <path d="M12 1L3 5v6c0 5.55 3.84 10.74 9 12 5.16-1.26 9-6.45 9-12V5l-9-4z"/>
+                </svg>
+                <span>Seguro & Privado</span>
+              </div>
             </div>
           </div>
         </div>
       </header>
 
       <main className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
-        {state === 'upload' && (
+        {/* Stays mounted while processing so an upload in progress can still be paused and resumed */}
+        {(state === 'upload' || state === 'processing') && (
           <FileUpload
             onUploadStart={handleUploadStart}
             onUploadSuccess={handleUploadSuccess}
             onUploadError={handleUploadError}
             onProgress={setProgress}
+            onUploadProgress={setUploadProgress}
+            onJobUpdate={handleJobUpdate}
+            onBatchComplete={handleBatchComplete}
+            disabled={state === 'processing'}
           />
         )}
 
-        {state === 'processing' && (
-          <>
-            <FileUpload
-              onUploadStart={handleUploadStart}
-              onUploadSuccess={handleUploadSuccess}
-              onUploadError={handleUploadError}
-              onProgress={setProgress}
-              disabled
-            />
-            <ProcessingStatus progress={progress} />
-          </>
+        {/* Batches show each file's progress in the upload queue instead */}
+        {state === 'processing' && batchSize === 1 && (
+          <ProcessingStatus
+            progress={progress}
+            uploadProgress={uploadProgress}
+            jobState={jobState}
+            message={jobMessage}
+            chunks={jobChunks}
+            options={uploadOptions}
+          />
         )}
 
         {state === 'results' && transcription && (
           <TranscriptionResults
             transcription={transcription}
             onNewTranscription={handleNewTranscription}
+            onTranscriptionUpdate={setTranscription}
+          />
+        )}
+
+        {state === 'batch' && (
+          <BatchSummary
+            items={batchItems}
+            onNewTranscription={handleNewTranscription}
           />
         )}
 
@@ -9,13 +9,29 @@ echo "NPM version: $(npm --version)"
 echo "Environment: $NODE_ENV"
 echo "Port: $PORT"
 
-# Check if OpenAI API key is set
-if [ -z "$OPENAI_API_KEY" ]; then
+# Check the configuration of the selected transcription provider
+TRANSCRIPTION_PROVIDER=${TRANSCRIPTION_PROVIDER:-openai}
+echo "Transcription provider: $TRANSCRIPTION_PROVIDER"
+if [ "$TRANSCRIPTION_PROVIDER" = "whisper-cpp" ]; then
+    if [ -z "$WHISPER_CPP_MODEL" ] || [ ! -f "$WHISPER_CPP_MODEL" ]; then
+        echo "WARNING: WHISPER_CPP_MODEL not set or file missing. Transcription will fail."
+    else
+        echo "whisper.cpp model configured ✓"
+    fi
+elif [ -z "$OPENAI_API_KEY" ]; then
     echo "WARNING: OPENAI_API_KEY not set. Transcription will fail."
 else
     echo "OpenAI API key configured ✓"
 fi
 
+# Apply the database schema when PostgreSQL storage is configured
+if [ -n "$DATABASE_URL" ]; then
+    echo "DATABASE_URL configured, applying database schema..."
+    npm run db:push || echo "WARNING: Failed to apply database schema."
+else
+    echo "WARNING: DATABASE_URL not set. Transcriptions will be kept in memory only."
+fi
+
 # Ensure uploads directory exists
 mkdir -p uploads
 
@@ -0,0 +1,57 @@
+import { afterEach, beforeEach, describe, it, mock } from "node:test";
+import assert from "node:assert/strict";
+import { planChunkBoundaries } from "../audio";
+
+describe("planChunkBoundaries", () => {
+  beforeEach(() => {
+    mock.method(console, "log", () => {});
+  });
+
+  afterEach(() => {
+    mock.restoreAll();
+  });
+
+  it("keeps a recording no longer than one chunk whole", () => {
+    assert.deepEqual(planChunkBoundaries(300, 600, [], 30), [0]);
+    assert.deepEqual(planChunkBoundaries(600, 600, [], 30), [0]);
+  });
+
+  it("cuts at the target when there are no pauses", () => {
+    assert.deepEqual(planChunkBoundaries(1800, 600, [], 30), [0, 600, 1200]);
+  });
+
+  it("leaves whatever remains after the last cut as a short final chunk", () => {
+    assert.deepEqual(planChunkBoundaries(1205, 600, [], 30), [0, 600, 1200]);
+  });
+
+  it("moves the cut to the middle of a pause within the tolerance", () => {
+    assert.deepEqual(planChunkBoundaries(1000, 600, [{ start: 580, end: 582 }], 30), [0, 581]);
+  });
+
+  it("picks the pause closest to the target", () => {
+    const silences = [
+      { start: 575, end: 577 },
+      { start: 590, end: 591 },
+      { start: 612, end: 614 },
+    ];
+
+    assert.deepEqual(planChunkBoundaries(1000, 600, silences, 30), [0, 590.5]);
+  });
+
+  it("accepts a pause right at the edge of the tolerance and ignores one just past it", () => {
+    assert.deepEqual(planChunkBoundaries(1000, 600, [{ start: 629, end: 631 }], 30), [0, 630]);
+    assert.deepEqual(planChunkBoundaries(1000, 600, [{ start: 569, end: 570.5 }], 30), [0, 600]);
+  });
+
+  it("aims each target from the previous cut", () => {
+    const silences = [{ start: 590, end: 592 }];
+
+    assert.deepEqual(planChunkBoundaries(1500, 600, silences, 30), [0, 591, 1191]);
+  });
+
+  it("never cuts at or before the previous cut", () => {
+    // With a tolerance wider than the chunk, the pause the first cut moved to is
+    // still within reach of the second target; cutting there again would leave an empty chunk
+    assert.deepEqual(planChunkBoundaries(25, 10, [{ start: 1, end: 3 }], 15), [0, 2, 12, 22]);
+  });
+});
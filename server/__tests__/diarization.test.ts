@@ -0,0 +1,262 @@
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import fs from "fs";
+import path from "path";
+import type { ServerConfig, TranscriptSegment, TranscriptionJob } from "@shared/schema";
+import { parseRttm } from "../diarization/command";
+import { MockDiarizer } from "../diarization/mock";
+import { assignSpeakers, renumberSpeakers } from "../diarization/speakers";
+import {
+  createTempDirectory,
+  generateTone,
+  hasFfmpeg,
+  postTranscription,
+  startTestServer,
+  waitForJob,
+  type TestServer,
+} from "./helpers";
+
+function segment(start: number, end: number): TranscriptSegment {
+  return { start, end, text: `${start}-${end}` };
+}
+
+describe("parseRttm", () => {
+  it("reads the start, duration and speaker of each SPEAKER line", () => {
+    const rttm = [
+      "SPEAKER audio 1 0.000 4.250 <NA> <NA> SPEAKER_00 <NA> <NA>",
+      "SPEAKER audio 1 4.250 3.5 <NA> <NA> SPEAKER_01 <NA> <NA>",
+    ].join("\n");
+
+    assert.deepEqual(parseRttm(rttm), [
+      { start: 0, end: 4.25, speaker: "SPEAKER_00" },
+      { start: 4.25, end: 7.75, speaker: "SPEAKER_01" },
+    ]);
+  });
+
+  it("sorts turns by start time", () => {
+    const rttm = [
+      "SPEAKER audio 1 10 2 <NA> <NA> B <NA> <NA>",
+      "SPEAKER audio 1 3 2 <NA> <NA> A <NA> <NA>",
+    ].join("\n");
+
+    assert.deepEqual(parseRttm(rttm).map((turn) => turn.start), [3, 10]);
+  });
+
+  it("skips other record types, short lines, blank lines and empty turns", () => {
+    const rttm = [
+      "",
+      "SPKR-INFO audio 1 <NA> <NA> <NA> unknown SPEAKER_00 <NA> <NA>",
+      "SPEAKER audio 1 1.0",
+      "SPEAKER audio 1 abc 2 <NA> <NA> SPEAKER_00 <NA> <NA>",
+      "SPEAKER audio 1 2 0 <NA> <NA> SPEAKER_00 <NA> <NA>",
+      "  SPEAKER\taudio 1 5 1 <NA> <NA> SPEAKER_01 <NA> <NA>  ",
+    ].join("\n");
+
+    assert.deepEqual(parseRttm(rttm), [{ start: 5, end: 6, speaker: "SPEAKER_01" }]);
+  });
+
+  it("accepts Windows line endings", () => {
+    assert.deepEqual(parseRttm("SPEAKER audio 1 0 1 <NA> <NA> A <NA> <NA>\r\n"), [{ start: 0, end: 1, speaker: "A" }]);
+  });
+});
+
+describe("renumberSpeakers", () => {
+  it("numbers speakers in order of first appearance", () => {
+    const turns = renumberSpeakers([
+      { start: 5, end: 8, speaker: "SPEAKER_00" },
+      { start: 0, end: 5, speaker: "SPEAKER_03" },
+      { start: 8, end: 9, speaker: "SPEAKER_03" },
+    ]);
+
+    assert.deepEqual(turns, [
+      { start: 0, end: 5, speaker: "1" },
+      { start: 5, end: 8, speaker: "2" },
+      { start: 8, end: 9, speaker: "1" },
+    ]);
+  });
+
+  it("does not change the turns it is given", () => {
+    const original = [{ start: 2, end: 3, speaker: "B" }, { start: 0, end: 1, speaker: "A" }];
+    renumberSpeakers(original);
+
+    assert.deepEqual(original, [{ start: 2, end: 3, speaker: "B" }, { start: 0, end: 1, speaker: "A" }]);
+  });
+});
+
+describe("assignSpeakers", () => {
+  const turns = [
+    { start: 0, end: 10, speaker: "1" },
+    { start: 10, end: 20, speaker: "2" },
+    { start: 30, end: 40, speaker: "1" },
+  ];
+
+  it("gives each segment the speaker it overlaps the most", () => {
+    const segments = assignSpeakers([segment(0, 4), segment(8, 14), segment(9, 11.5)], turns);
+
+    assert.deepEqual(segments.map((s) => s.speaker), ["1", "2", "2"]);
+  });
+
+  it("adds up the overlap of every turn of the same speaker", () => {
+    const segments = assignSpeakers(
+      [segment(0, 10)],
+      [
+        { start: 0, end: 3, speaker: "A" },
+        { start: 3, end: 7, speaker: "B" },
+        { start: 7, end: 10, speaker: "A" },
+      ]
+    );
+
+    assert.equal(segments[0].speaker, "A");
+  });
+
+  it("breaks ties in favor of the speaker whose turn comes first", () => {
+    const segments = assignSpeakers([segment(8, 12)], turns);
+
+    assert.equal(segments[0].speaker, "1");
+  });
+
+  it("gives a segment in a gap between turns the speaker of the nearest turn", () => {
+    const segments = assignSpeakers([segment(21, 23), segment(27, 29)], turns);
+
+    assert.deepEqual(segments.map((s) => s.speaker), ["2", "1"]);
+  });
+
+  it("picks the earlier turn when a segment sits halfway between two", () => {
+    const segments = assignSpeakers([segment(24, 26)], turns);
+
+    assert.equal(segments[0].speaker, "2");
+  });
+
+  it("gives segments past the last turn its speaker", () => {
+    const segments = assignSpeakers([segment(45, 50)], turns);
+
+    assert.equal(segments[0].speaker, "1");
+  });
+
+  it("does not count touching a turn's edge as overlap", () => {
+    const segments = assignSpeakers(
+      [segment(20, 22), segment(22, 23)],
+      [{ start: 10, end: 20, speaker: "A" }, { start: 22, end: 30, speaker: "B" }]
+    );
+
+    assert.deepEqual(segments.map((s) => s.speaker), ["A", "B"]);
+  });
+
+  it("leaves segments unlabeled when there are no turns", () => {
+    const segments = [segment(0, 5)];
+
+    assert.equal(assignSpeakers(segments, []), segments);
+  });
+
+  it("keeps the rest of each segment", () => {
+    const [labeled] = assignSpeakers([{ start: 1, end: 2, text: "olá", avgLogprob: -0.2 }], turns);
+
+    assert.deepEqual(labeled, { start: 1, end: 2, text: "olá", avgLogprob: -0.2, speaker: "1" });
+  });
+});
+
+describe("MockDiarizer", () => {
+  it("rotates speakers in fixed-length turns up to the duration", async () => {
+    const turns = await new MockDiarizer({ speakerCount: 3, turnSeconds: 4 }).diarize("ignored.mp3", { duration: 14 });
+
+    assert.deepEqual(turns, [
+      { start: 0, end: 4, speaker: "MOCK_SPEAKER_0" },
+      { start: 4, end: 8, speaker: "MOCK_SPEAKER_1" },
+      { start: 8, end: 12, speaker: "MOCK_SPEAKER_2" },
+      { start: 12, end: 14, speaker: "MOCK_SPEAKER_0" },
+    ]);
+  });
+
+  it("returns no turns without a duration", async () => {
+    assert.deepEqual(await new MockDiarizer().diarize("ignored.mp3"), []);
+  });
+
+  it("labels segments through renumbering and assignment like the pipeline does", async () => {
+    const turns = renumberSpeakers(await new MockDiarizer().diarize("ignored.mp3", { duration: 30 }));
+    const segments = assignSpeakers([segment(0, 5), segment(12, 17), segment(22, 27)], turns);
+
+    assert.deepEqual(segments.map((s) => s.speaker), ["1", "2", "1"]);
+  });
+});
+
+describe("diarization through /api/transcribe", { skip: !hasFfmpeg && "ffmpeg is not installed" }, () => {
+  let fixtures: string;
+  let recording: string;
+
+  before(async () => {
+    fixtures = createTempDirectory();
+    recording = await generateTone(path.join(fixtures, "reuniao.mp3"), 25);
+  });
+
+  after(() => {
+    fs.rmSync(fixtures, { recursive: true, force: true });
+  });
+
+  describe("with the mock backend", () => {
+    let server: TestServer;
+
+    before(async () => {
+      server = await startTestServer({ DIARIZATION_BACKEND: "mock" });
+    });
+
+    after(async () => {
+      await server.stop();
+    });
+
+    it("reports diarization as available", async () => {
+      const response = await fetch(`${server.baseUrl}/api/config`);
+
+      assert.equal(response.status, 200);
+      assert.deepEqual((await response.json()) as ServerConfig, { diarization: true });
+    });
+
+    it("labels segments with the speakers taking turns", async () => {
+      const response = await postTranscription(server.baseUrl, recording, { diarize: "true" });
+      assert.equal(response.status, 202);
+      const job = await waitForJob(server.baseUrl, ((await response.json()) as TranscriptionJob).id);
+
+      assert.equal(job.state, "done", job.error);
+      assert.deepEqual(job.result?.speakers, [
+        { id: "1", name: "Falante 1" },
+        { id: "2", name: "Falante 2" },
+      ]);
+      // The mock provider writes 5-second segments and the mock backend switches speakers every 10 seconds
+      const segments = job.result?.segments ?? [];
+      assert.ok(segments.length >= 5);
+      for (const { start, speaker } of segments) {
+        assert.equal(speaker, Math.floor(start / 10) % 2 === 0 ? "1" : "2", `segment at ${start}s`);
+      }
+    });
+  });
+
+  describe("without a backend", () => {
+    let server: TestServer;
+
+    before(async () => {
+      server = await startTestServer({ DIARIZATION_BACKEND: "none" });
+    });
+
+    after(async () => {
+      await server.stop();
+    });
+
+    it("reports diarization as unavailable", async () => {
+      const response = await fetch(`${server.baseUrl}/api/config`);
+
+      assert.deepEqual((await response.json()) as ServerConfig, { diarization: false });
+    });
+
+    it("rejects uploads that ask for it and removes the file", async () => {
+      const response = await postTranscription(server.baseUrl, recording, { diarize: "true" });
+
+      assert.equal(response.status, 400);
+      assert.deepEqual(await response.json(), {
+        error: "A identificação de falantes não está disponível neste servidor.",
+      });
+      assert.deepEqual(
+        fs.readdirSync(path.join(server.directory, "uploads")).filter((name) => name.startsWith("audioFile-")),
+        []
+      );
+    });
+  });
+});
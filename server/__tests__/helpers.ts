@@ -0,0 +1,145 @@
+import { execFile, spawn, spawnSync, type ChildProcess } from "child_process";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { promisify } from "util";
+import type { TranscriptionJob } from "@shared/schema";
+
+const execFileAsync = promisify(execFile);
+
+const REPO_ROOT = path.resolve(import.meta.dirname, "../..");
+const SERVER_START_TIMEOUT_MS = 30000;
+const JOB_POLL_INTERVAL_MS = 200;
+
+export const hasFfmpeg = ["ffmpeg", "ffprobe"].every(
+  (binary) => spawnSync(binary, ["-version"], { stdio: "ignore" }).status === 0
+);
+
+export function createTempDirectory(): string {
+  return fs.mkdtempSync(path.join(os.tmpdir(), "transcription-test-"));
+}
+
+/**
+ * Writes a mono sine tone of the given length; extra FFmpeg output options
+ * pick the codec, e.g. ["-c:a", "libopus"]
+ */
+export async function generateTone(filePath: string, seconds: number, outputOptions: string[] = []): Promise<string> {
+  await execFileAsync("ffmpeg", [
+    "-y", "-hide_banner", "-loglevel", "error",
+    "-f", "lavfi", "-i", `sine=frequency=440:sample_rate=16000:duration=${seconds}`,
+    "-ac", "1", "-b:a", "32k",
+    ...outputOptions,
+    filePath,
+  ]);
+  return filePath;
+}
+
+export interface TestServer {
+  baseUrl: string;
+  directory: string; // working directory of the server, where uploads are written
+  stop(): Promise<void>;
+}
+
+/**
+ * Starts the API in its own process with the mock provider and the given
+ * environment. Each server works in a fresh temporary directory, so uploads
+ * and retained audio never touch the repository.
+ */
+export async function startTestServer(env: Record<string, string> = {}): Promise<TestServer> {
+  const directory = createTempDirectory();
+  const { DATABASE_URL: _databaseUrl, ...inheritedEnv } = process.env;
+
+  // tsx is resolved here, as the server's working directory has no node_modules
+  const serverScript = path.join(import.meta.dirname, "test-server.ts");
+  const child = spawn(process.execPath, ["--import", import.meta.resolve("tsx"), serverScript], {
+    cwd: directory,
+    env: {
+      ...inheritedEnv,
+      NODE_ENV: "test",
+      TSX_TSCONFIG_PATH: path.join(REPO_ROOT, "tsconfig.json"),
+      TRANSCRIPTION_PROVIDER: "mock",
+      // Failures must reach the job at once instead of being retried with backoff
+      TRANSCRIPTION_MAX_RETRIES: "0",
+      ...env,
+    },
+    stdio: ["ignore", "pipe", "pipe"],
+  });
+
+  let output = "";
+  const started = new Promise<number>((resolve, reject) => {
+    const timeout = setTimeout(() => reject(new Error(`Test server did not start:\n${output}`)), SERVER_START_TIMEOUT_MS);
+    const onData = (data: Buffer) => {
+      output += data.toString();
+      const match = output.match(/listening on (\d+)/);
+      if (match) {
+        clearTimeout(timeout);
+        resolve(parseInt(match[1], 10));
+      }
+    };
+    child.stdout!.on("data", onData);
+    child.stderr!.on("data", onData);
+    child.once("exit", (code) => {
+      clearTimeout(timeout);
+      reject(new Error(`Test server exited with code ${code}:\n${output}`));
+    });
+  });
+
+  let port: number;
+  try {
+    port = await started;
+  } catch (error) {
+    await stopProcess(child);
+    fs.rmSync(directory, { recursive: true, force: true });
+    throw error;
+  }
+
+  return {
+    baseUrl: `http://127.0.0.1:${port}`,
+    directory,
+    stop: async () => {
+      await stopProcess(child);
+      fs.rmSync(directory, { recursive: true, force: true });
+    },
+  };
+}
+
+function stopProcess(child: ChildProcess): Promise<void> {
+  if (child.exitCode !== null || child.signalCode !== null) {
+    return Promise.resolve();
+  }
+  return new Promise((resolve) => {
+    child.once("exit", () => resolve());
+    child.kill();
+  });
+}
+
+// POST a file to /api/transcribe as the browser does, with form fields for the options
+export async function postTranscription(
+  baseUrl: string,
+  filePath: string,
+  fields: Record<string, string> = {}
+): Promise<Response> {
+  const form = new FormData();
+  form.append("audioFile", new Blob([await fs.promises.readFile(filePath)]), path.basename(filePath));
+  for (const [name, value] of Object.entries(fields)) {
+    form.append(name, value);
+  }
+  return fetch(`${baseUrl}/api/transcribe`, { method: "POST", body: form });
+}
+
+// Poll a job until it is done or failed
+export async function waitForJob(baseUrl: string, jobId: string, timeoutMs = 60000): Promise<TranscriptionJob> {
+  const deadline = Date.now() + timeoutMs;
+  while (Date.now() < deadline) {
+    const response = await fetch(`${baseUrl}/api/jobs/${jobId}`);
+    if (!response.ok) {
+      throw new Error(`GET /api/jobs/${jobId} answered ${response.status}`);
+    }
+    const job = (await response.json()) as TranscriptionJob;
+    if (job.state === "done" || job.state === "failed") {
+      return job;
+    }
+    await new Promise((resolve) => setTimeout(resolve, JOB_POLL_INTERVAL_MS));
+  }
+  throw new Error(`Job ${jobId} did not finish within ${timeoutMs}ms`);
+}
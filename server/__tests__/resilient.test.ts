@@ -0,0 +1,215 @@
+import { afterEach, beforeEach, describe, it, mock } from "node:test";
+import assert from "node:assert/strict";
+import { createRateLimiter } from "../concurrency";
+import { TranscriptionError } from "../providers/errors";
+import { CircuitBreaker, ResilientTranscriptionProvider, getRetryDelay, type RetryPolicy } from "../providers/resilient";
+import type { ProviderRetry, TranscriptionProvider, TranscriptionResult } from "../providers/types";
+
+const policy: RetryPolicy = { maxRetries: 3, baseDelayMs: 1000, maxDelayMs: 8000 };
+
+function temporaryFailure(retryAfterMs?: number): TranscriptionError {
+  return new TranscriptionError("rate_limited", "Limite atingido.", { retryable: true, retryAfterMs });
+}
+
+describe("getRetryDelay", () => {
+  afterEach(() => {
+    mock.restoreAll();
+  });
+
+  it("waits up to the base delay doubled for each attempt", () => {
+    mock.method(Math, "random", () => 1);
+
+    assert.deepEqual([0, 1, 2].map((attempt) => getRetryDelay(attempt, policy)), [1000, 2000, 4000]);
+  });
+
+  it("picks a random wait below the backoff", () => {
+    mock.method(Math, "random", () => 0.25);
+
+    assert.equal(getRetryDelay(2, policy), 1000);
+  });
+
+  it("never waits longer than maxDelayMs", () => {
+    mock.method(Math, "random", () => 1);
+
+    assert.equal(getRetryDelay(10, policy), 8000);
+  });
+
+  it("waits at least as long as the provider asked", () => {
+    mock.method(Math, "random", () => 0);
+
+    assert.equal(getRetryDelay(0, policy, 3000), 3000);
+  });
+
+  it("caps the wait the provider asked for at maxDelayMs", () => {
+    mock.method(Math, "random", () => 0);
+
+    assert.equal(getRetryDelay(0, policy, 3600 * 1000), 8000);
+  });
+});
+
+describe("CircuitBreaker", () => {
+  let now: number;
+  let breaker: CircuitBreaker;
+
+  beforeEach(() => {
+    now = 0;
+    mock.method(Date, "now", () => now);
+    mock.method(console, "warn", () => {});
+    breaker = new CircuitBreaker({ failureThreshold: 3, cooldownMs: 10000 });
+  });
+
+  afterEach(() => {
+    mock.restoreAll();
+  });
+
+  function open() {
+    for (let i = 0; i < 3; i++) {
+      breaker.recordFailure();
+    }
+  }
+
+  it("stays closed below the failure threshold", () => {
+    breaker.recordFailure();
+    breaker.recordFailure();
+
+    assert.equal(breaker.allowRequest(), true);
+  });
+
+  it("counts only consecutive failures", () => {
+    breaker.recordFailure();
+    breaker.recordFailure();
+    breaker.recordSuccess();
+    breaker.recordFailure();
+
+    assert.equal(breaker.allowRequest(), true);
+  });
+
+  it("opens after the threshold and fails fast until the cooldown passes", () => {
+    open();
+
+    assert.equal(breaker.allowRequest(), false);
+    now = 9999;
+    assert.equal(breaker.allowRequest(), false);
+  });
+
+  it("lets a single trial call through once the cooldown passes", () => {
+    open();
+    now = 10000;
+
+    assert.equal(breaker.allowRequest(), true);
+    assert.equal(breaker.allowRequest(), false);
+  });
+
+  it("closes again when the trial call succeeds", () => {
+    open();
+    now = 10000;
+    breaker.allowRequest();
+    breaker.recordSuccess();
+
+    assert.equal(breaker.allowRequest(), true);
+    assert.equal(breaker.allowRequest(), true);
+  });
+
+  it("opens again for another cooldown when the trial call fails", () => {
+    open();
+    now = 10000;
+    breaker.allowRequest();
+    breaker.recordFailure();
+
+    assert.equal(breaker.allowRequest(), false);
+    now = 19999;
+    assert.equal(breaker.allowRequest(), false);
+    now = 20000;
+    assert.equal(breaker.allowRequest(), true);
+  });
+});
+
+describe("ResilientTranscriptionProvider", () => {
+  const result: TranscriptionResult = { text: "olá", segments: [] };
+
+  beforeEach(() => {
+    mock.method(console, "log", () => {});
+    mock.method(console, "warn", () => {});
+  });
+
+  afterEach(() => {
+    mock.restoreAll();
+  });
+
+  // A provider whose transcribe calls fail with the given errors in turn, then succeed
+  function failingProvider(errors: Error[]): TranscriptionProvider & { calls: number } {
+    const provider = {
+      name: "falho",
+      calls: 0,
+      async transcribe() {
+        provider.calls += 1;
+        const error = errors.shift();
+        if (error) {
+          throw error;
+        }
+        return result;
+      },
+      async translate() {
+        return result;
+      },
+    };
+    return provider;
+  }
+
+  function wrap(provider: TranscriptionProvider, retryPolicy: RetryPolicy, breaker?: CircuitBreaker) {
+    return new ResilientTranscriptionProvider(
+      provider,
+      retryPolicy,
+      breaker ?? new CircuitBreaker({ failureThreshold: 10, cooldownMs: 60000 }),
+      createRateLimiter(0)
+    );
+  }
+
+  it("retries temporary failures and reports each retry", async () => {
+    const provider = failingProvider([temporaryFailure(), temporaryFailure()]);
+    const retries: ProviderRetry[] = [];
+
+    const transcription = await wrap(provider, { maxRetries: 3, baseDelayMs: 1, maxDelayMs: 1 })
+      .transcribe("audio.mp3", { onRetry: (retry) => retries.push(retry) });
+
+    assert.equal(transcription, result);
+    assert.equal(provider.calls, 3);
+    assert.deepEqual(retries.map((retry) => retry.attempt), [1, 2]);
+  });
+
+  it("holds a long Retry-After to maxDelayMs", async () => {
+    const provider = failingProvider([temporaryFailure(3600 * 1000)]);
+    const retries: ProviderRetry[] = [];
+
+    await wrap(provider, { maxRetries: 1, baseDelayMs: 1, maxDelayMs: 5 })
+      .transcribe("audio.mp3", { onRetry: (retry) => retries.push(retry) });
+
+    assert.deepEqual(retries.map((retry) => retry.delayMs), [5]);
+  });
+
+  it("gives up after maxRetries with the last error", async () => {
+    const last = temporaryFailure();
+    const provider = failingProvider([temporaryFailure(), last]);
+
+    await assert.rejects(wrap(provider, { maxRetries: 1, baseDelayMs: 1, maxDelayMs: 1 }).transcribe("audio.mp3"), last);
+    assert.equal(provider.calls, 2);
+  });
+
+  it("does not retry errors a retry will not fix", async () => {
+    const invalidKey = new TranscriptionError("invalid_api_key", "Chave inválida.");
+    const provider = failingProvider([invalidKey]);
+
+    await assert.rejects(wrap(provider, policy).transcribe("audio.mp3"), invalidKey);
+    assert.equal(provider.calls, 1);
+  });
+
+  it("fails fast without calling the provider while the circuit is open", async () => {
+    const breaker = new CircuitBreaker({ failureThreshold: 1, cooldownMs: 60000 });
+    const provider = failingProvider([temporaryFailure()]);
+    const resilient = wrap(provider, { maxRetries: 0, baseDelayMs: 1, maxDelayMs: 1 }, breaker);
+
+    await assert.rejects(resilient.transcribe("audio.mp3"), { code: "rate_limited" });
+    await assert.rejects(resilient.transcribe("audio.mp3"), { code: "circuit_open" });
+    assert.equal(provider.calls, 1);
+  });
+});
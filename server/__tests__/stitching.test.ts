@@ -0,0 +1,121 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import type { TranscriptSegment } from "@shared/schema";
+import { buildContinuationPrompt, stitchSegments } from "../stitching";
+
+function segment(start: number, end: number, text: string): TranscriptSegment {
+  return { start, end, text };
+}
+
+function joinText(segments: TranscriptSegment[]): string {
+  return segments.map((s) => s.text).join(" ");
+}
+
+describe("stitchSegments", () => {
+  it("cuts the speech both chunks heard in the middle of the matching words", () => {
+    const previous = [
+      segment(0, 25, "bom dia a todos"),
+      segment(25, 30, "vamos falar sobre o orçamento de março"),
+    ];
+    const next = [
+      segment(25, 30, "vamos falar sobre o orçamento de março"),
+      segment(30, 35, "e depois encerramos"),
+    ];
+
+    const stitched = stitchSegments(previous, next, 25, 30);
+
+    assert.equal(joinText(stitched.previous), "bom dia a todos vamos falar sobre o");
+    assert.equal(joinText(stitched.next), "orçamento de março e depois encerramos");
+    // The trimmed segments keep the share of time of the words they kept
+    assert.ok(stitched.previous[1].end < 30);
+    assert.ok(stitched.next[0].start > 25);
+  });
+
+  it("matches words regardless of case, accents and punctuation", () => {
+    const previous = [segment(25, 30, "Vamos falar sobre o orçamento.")];
+    const next = [segment(25, 30, "vamos falar, sobre o orcamento e o resto")];
+
+    const stitched = stitchSegments(previous, next, 25, 30);
+
+    assert.equal(joinText(stitched.previous), "Vamos falar sobre");
+    assert.equal(joinText(stitched.next), "o orcamento e o resto");
+  });
+
+  it("leaves both chunks alone when they do not overlap", () => {
+    const previous = [segment(0, 30, "primeira parte")];
+    const next = [segment(30, 60, "segunda parte")];
+
+    const stitched = stitchSegments(previous, next, 30, 30);
+
+    assert.equal(stitched.previous, previous);
+    assert.equal(stitched.next, next);
+  });
+
+  it("splits the overlap at its midpoint when no words match", () => {
+    const previous = [
+      segment(0, 24, "começo da reunião"),
+      segment(24, 27, "primeiro trecho"),
+      segment(27, 30, "segundo trecho"),
+    ];
+    const next = [
+      segment(25, 27, "outra versão"),
+      segment(27, 30, "mais uma versão"),
+      segment(30, 40, "continuação"),
+    ];
+
+    const stitched = stitchSegments(previous, next, 25, 30);
+
+    assert.equal(joinText(stitched.previous), "começo da reunião primeiro trecho");
+    assert.equal(joinText(stitched.next), "mais uma versão continuação");
+  });
+
+  it("does not align on a couple of common words and drop the speech between them", () => {
+    // "e o" starts the earlier chunk's tail and ends the later chunk's head; aligning
+    // on it would throw away "contrato assinado ontem"
+    const previous = [segment(0, 25, "falamos do fornecedor"), segment(25, 30, "e o contrato foi assinado")];
+    const next = [segment(25, 31, "contrato assinado ontem e o"), segment(31, 36, "pagamento sai amanhã")];
+
+    const stitched = stitchSegments(previous, next, 25, 30);
+
+    assert.equal(
+      `${joinText(stitched.previous)} ${joinText(stitched.next)}`,
+      "falamos do fornecedor contrato assinado ontem e o pagamento sai amanhã"
+    );
+  });
+
+  it("ignores matching words heard outside the overlap", () => {
+    const phrase = "o relatório de vendas do trimestre";
+    // The earlier chunk says the phrase at its start, the later chunk inside the overlap
+    const previous = [segment(0, 30, `${phrase} ${"ok ".repeat(24).trim()}`)];
+    const next = [segment(25, 30, phrase), segment(30, 35, "foi aprovado")];
+
+    const stitched = stitchSegments(previous, next, 25, 30);
+
+    assert.equal(stitched.previous.length, 1);
+    assert.ok(stitched.previous[0].text.startsWith(phrase));
+  });
+});
+
+describe("buildContinuationPrompt", () => {
+  it("uses the words spoken before the next chunk starts", () => {
+    const segments = [segment(0, 5, "primeira frase."), segment(5, 10, "segunda frase."), segment(9, 12, "depois")];
+
+    assert.equal(buildContinuationPrompt(segments, 10), "primeira frase. segunda frase.");
+  });
+
+  it("keeps only the last words of a long transcript", () => {
+    const words = Array.from({ length: 80 }, (_, i) => `palavra${i + 1}`);
+    const prompt = buildContinuationPrompt([segment(0, 60, words.join(" "))], 60);
+
+    assert.equal(prompt, words.slice(-50).join(" "));
+  });
+
+  it("falls back to every segment when none ends before the next chunk", () => {
+    assert.equal(buildContinuationPrompt([segment(0, 30, "fala longa")], 20), "fala longa");
+  });
+
+  it("returns nothing without words", () => {
+    assert.equal(buildContinuationPrompt([], 10), undefined);
+    assert.equal(buildContinuationPrompt([segment(0, 5, "  ")], 10), undefined);
+  });
+});
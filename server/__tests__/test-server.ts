@@ -0,0 +1,17 @@
+import express from "express";
+import type { AddressInfo } from "net";
+import { registerRoutes } from "../routes";
+
+// The API alone, without the client, for the integration tests. The provider
+// is picked from the environment when the routes load, so the tests start one
+// of these per provider configuration and read the port from the first line
+// printed after "listening on".
+const app = express();
+app.use(express.json());
+app.use(express.urlencoded({ extended: false }));
+
+registerRoutes(app).then((server) => {
+  server.listen(0, "127.0.0.1", () => {
+    console.log(`listening on ${(server.address() as AddressInfo).port}`);
+  });
+});
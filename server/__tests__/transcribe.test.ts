@@ -0,0 +1,210 @@
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import fs from "fs";
+import path from "path";
+import type { TranscriptionJob, TranscriptionResponse } from "@shared/schema";
+import {
+  createTempDirectory,
+  generateTone,
+  hasFfmpeg,
+  postTranscription,
+  startTestServer,
+  waitForJob,
+  type TestServer,
+} from "./helpers";
+
+// Recordings longer than this are split (CHUNK_DURATION_SECONDS in routes.ts)
+const CHUNK_DURATION_SECONDS = 600;
+// The mock provider writes one segment per this many seconds
+const MOCK_SEGMENT_SECONDS = 5;
+
+// The message each MOCK_TRANSCRIPTION_FAILURE value must reach the user with
+const FAILURE_MESSAGES: Record<string, string> = {
+  invalid_key: "Chave da API OpenAI inválida. Verifique a configuração.",
+  quota: "Cota da API OpenAI excedida. Tente novamente mais tarde.",
+  too_large: "Arquivo muito grande para processamento. Reduza o tamanho do arquivo.",
+  bad_request: "Formato de arquivo não suportado ou arquivo corrompido.",
+  server_error: "Erro temporário do serviço de transcrição. Tente novamente em alguns minutos.",
+  network: "Erro de conexão com o serviço de transcrição. Verifique sua conexão com a internet.",
+  rate_limited: "Limite de requisições do serviço de transcrição atingido. Tente novamente em instantes.",
+  connection_reset: "Erro de conexão com o serviço de transcrição. Verifique sua conexão com a internet.",
+  timeout: "O serviço de transcrição demorou demais para responder. Tente novamente.",
+};
+
+// Upload a file and wait for its job, checking the upload was accepted
+async function transcribe(server: TestServer, filePath: string, fields?: Record<string, string>): Promise<TranscriptionJob> {
+  const response = await postTranscription(server.baseUrl, filePath, fields);
+  assert.equal(response.status, 202);
+  const job = (await response.json()) as TranscriptionJob;
+  return waitForJob(server.baseUrl, job.id);
+}
+
+function getResult(job: TranscriptionJob): TranscriptionResponse {
+  assert.equal(job.state, "done", job.error);
+  assert.ok(job.result);
+  return job.result;
+}
+
+describe("POST /api/transcribe with the mock provider", { skip: !hasFfmpeg && "ffmpeg is not installed" }, () => {
+  let fixtures: string;
+  let shortMp3: string;
+  let longMp3: string;
+  let shortOpus: string;
+
+  before(async () => {
+    fixtures = createTempDirectory();
+    shortMp3 = await generateTone(path.join(fixtures, "curto.mp3"), 12);
+    longMp3 = await generateTone(path.join(fixtures, "longo.mp3"), CHUNK_DURATION_SECONDS + 20);
+    shortOpus = await generateTone(path.join(fixtures, "curto.opus"), 12, ["-c:a", "libopus"]);
+  });
+
+  after(() => {
+    fs.rmSync(fixtures, { recursive: true, force: true });
+  });
+
+  describe("without failures", () => {
+    let server: TestServer;
+
+    before(async () => {
+      server = await startTestServer();
+    });
+
+    after(async () => {
+      await server.stop();
+    });
+
+    it("transcribes a short file in a single request", async () => {
+      const result = getResult(await transcribe(server, shortMp3));
+
+      assert.equal(result.filename, "curto.mp3");
+      assert.equal(result.status, "complete");
+      assert.equal(result.language, "pt");
+      assert.equal(result.totalChunks, 1);
+      assert.equal(result.chunks, undefined);
+      assert.ok(Math.abs((result.duration ?? 0) - 12) < 0.5);
+      assert.equal(result.segments?.length, 3);
+      assert.equal(result.transcriptionText, "Trecho simulado 1 de 3. Trecho simulado 2 de 3. Trecho simulado 3 de 3.");
+      assert.equal(result.wordCount, 15);
+
+      const stored = await fetch(`${server.baseUrl}/api/transcriptions/${result.id}`);
+      assert.equal(stored.status, 200);
+      assert.equal(((await stored.json()) as TranscriptionResponse).transcriptionText, result.transcriptionText);
+    });
+
+    it("splits a long file into chunks and joins their segments", async () => {
+      const result = getResult(await transcribe(server, longMp3));
+
+      assert.equal(result.status, "complete");
+      assert.equal(result.totalChunks, 2);
+      assert.deepEqual(result.chunks?.map((chunk) => chunk.status), ["done", "done"]);
+      assert.equal(result.chunks?.[0].start, 0);
+      assert.ok(Math.abs((result.duration ?? 0) - (CHUNK_DURATION_SECONDS + 20)) < 1);
+
+      // Each chunk contributes its own segments, shifted to its place in the recording
+      const segments = result.segments ?? [];
+      assert.ok(segments.length >= (CHUNK_DURATION_SECONDS + 20) / MOCK_SEGMENT_SECONDS);
+      for (let i = 1; i < segments.length; i++) {
+        assert.ok(segments[i].start >= segments[i - 1].start, `segment ${i} starts before segment ${i - 1}`);
+      }
+      assert.ok(segments[segments.length - 1].end > CHUNK_DURATION_SECONDS);
+    });
+
+    it("converts OPUS to a format the provider accepts", async () => {
+      const result = getResult(await transcribe(server, shortOpus));
+
+      assert.equal(result.filename, "curto.opus");
+      assert.equal(result.preprocessing?.applied, true);
+      assert.ok(result.preprocessing?.reasons.includes("unsupported_format"));
+      assert.equal(result.preprocessing?.input?.codec, "opus");
+      assert.equal(result.preprocessing?.output?.codec, "mp3");
+      assert.equal(result.segments?.length, 3);
+    });
+
+    it("rejects a request without a file", async () => {
+      const response = await fetch(`${server.baseUrl}/api/transcribe`, { method: "POST", body: new FormData() });
+
+      assert.equal(response.status, 400);
+      assert.deepEqual(await response.json(), {
+        error: "Nenhum arquivo foi enviado. Selecione um arquivo de áudio.",
+      });
+    });
+
+    it("rejects invalid options and removes the upload", async () => {
+      const response = await postTranscription(server.baseUrl, shortMp3, { language: "xx" });
+
+      assert.equal(response.status, 400);
+      assert.deepEqual(await response.json(), {
+        error: "Opções de transcrição inválidas. Verifique o idioma e o modo escolhidos.",
+      });
+      assert.deepEqual(
+        fs.readdirSync(path.join(server.directory, "uploads")).filter((name) => name.startsWith("audioFile-")),
+        []
+      );
+    });
+  });
+
+  describe("with one chunk failing", () => {
+    let server: TestServer;
+
+    before(async () => {
+      server = await startTestServer({ MOCK_TRANSCRIPTION_FAILURE: "bad_request", MOCK_TRANSCRIPTION_FAIL_CALLS: "2" });
+    });
+
+    after(async () => {
+      await server.stop();
+    });
+
+    const chunkFiles = (directory: string) =>
+      fs.readdirSync(path.join(server.directory, directory)).filter((name) => name.startsWith("chunk_"));
+
+    it("keeps the failed chunk's audio with the retained audio and retries it", async () => {
+      const result = getResult(await transcribe(server, longMp3));
+
+      assert.equal(result.status, "partial");
+      assert.deepEqual(result.chunks?.map((chunk) => chunk.status).sort(), ["done", "failed"]);
+      // The startup cleanup only looks in uploads/audio, so that is where it must wait
+      assert.deepEqual(chunkFiles("uploads"), []);
+      assert.equal(chunkFiles("uploads/audio").length, 1);
+
+      const response = await fetch(`${server.baseUrl}/api/transcriptions/${result.id}/retry`, { method: "POST" });
+      assert.equal(response.status, 202);
+      const retried = getResult(await waitForJob(server.baseUrl, ((await response.json()) as TranscriptionJob).id));
+
+      assert.equal(retried.status, "complete");
+      assert.deepEqual(chunkFiles("uploads/audio"), []);
+    });
+  });
+
+  for (const [failure, message] of Object.entries(FAILURE_MESSAGES)) {
+    describe(`with MOCK_TRANSCRIPTION_FAILURE=${failure}`, () => {
+      let server: TestServer;
+
+      before(async () => {
+        server = await startTestServer({ MOCK_TRANSCRIPTION_FAILURE: failure });
+      });
+
+      after(async () => {
+        await server.stop();
+      });
+
+      it("fails the job with the mapped message", async () => {
+        const job = await transcribe(server, shortMp3);
+
+        assert.equal(job.state, "failed");
+        assert.equal(job.error, message);
+        assert.equal(job.result, undefined);
+
+        const jobResponse = await fetch(`${server.baseUrl}/api/jobs/${job.id}`);
+        assert.equal(jobResponse.status, 200);
+
+        // Nothing is saved and the upload is cleaned up
+        const list = await fetch(`${server.baseUrl}/api/transcriptions`);
+        assert.equal(((await list.json()) as { total: number }).total, 0);
+        assert.deepEqual(
+          fs.readdirSync(path.join(server.directory, "uploads")).filter((name) => name.startsWith("audioFile-")),
+          []
+        );
+      });
+    });
+  }
+});
@@ -0,0 +1,89 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import type { SpeechRegion, TranscriptSegment } from "@shared/schema";
+import {
+  mapSegmentsToOriginal,
+  mapSegmentsToTrimmed,
+  planSpeechRegions,
+  toOriginalTime,
+  toTrimmedTime,
+} from "../vad";
+
+// A 60-second recording with a 10-second pause at 10s and silence from 50s to the end,
+// each kept for half a second on the speech side
+const regions: SpeechRegion[] = [
+  { start: 0, end: 10.5, offset: 0 },
+  { start: 19.5, end: 50.5, offset: 10.5 },
+];
+
+describe("planSpeechRegions", () => {
+  it("leaves out long pauses, keeping the padding next to the speech", () => {
+    const silences = [
+      { start: 10, end: 20 },
+      { start: 30, end: 31 },
+      { start: 50, end: 60 },
+    ];
+
+    assert.deepEqual(planSpeechRegions(60, silences, 3, 0.5), regions);
+  });
+
+  it("drops leading silence up to the padding before the speech", () => {
+    assert.deepEqual(planSpeechRegions(30, [{ start: 0, end: 5 }], 3, 0.5), [{ start: 4.5, end: 30, offset: 0 }]);
+  });
+
+  it("keeps the whole recording when no pause is long enough", () => {
+    assert.deepEqual(planSpeechRegions(30, [{ start: 10, end: 11 }], 3, 0.5), [{ start: 0, end: 30, offset: 0 }]);
+  });
+});
+
+describe("toOriginalTime", () => {
+  it("shifts a time inside a region by the pauses left out before it", () => {
+    assert.equal(toOriginalTime(regions, 5), 5);
+    assert.equal(toOriginalTime(regions, 15), 24);
+  });
+
+  it("puts a time at a seam in the later region, or the earlier one for an end", () => {
+    assert.equal(toOriginalTime(regions, 10.5), 19.5);
+    assert.equal(toOriginalTime(regions, 10.5, true), 10.5);
+  });
+
+  it("holds a time past the last region at its end", () => {
+    assert.equal(toOriginalTime(regions, 45), 50.5);
+  });
+});
+
+describe("toTrimmedTime", () => {
+  it("shifts a time inside a region onto the trimmed audio", () => {
+    assert.equal(toTrimmedTime(regions, 5), 5);
+    assert.equal(toTrimmedTime(regions, 24), 15);
+  });
+
+  it("moves a time in a removed pause to where the next region starts", () => {
+    assert.equal(toTrimmedTime(regions, 15), 10.5);
+  });
+
+  it("holds a time past the last region at the end of the trimmed audio", () => {
+    assert.equal(toTrimmedTime(regions, 55), 41.5);
+  });
+
+  it("moves a time before the first region to the start", () => {
+    assert.equal(toTrimmedTime([{ start: 4.5, end: 30, offset: 0 }], 2), 0);
+  });
+});
+
+describe("mapSegmentsToTrimmed and mapSegmentsToOriginal", () => {
+  it("bring segments back to where they were, as retries rely on", () => {
+    const segments: TranscriptSegment[] = [
+      { start: 2, end: 8, text: "começo", speaker: "1" },
+      { start: 5, end: 10.5, text: "até a pausa" },
+      { start: 8, end: 22, text: "através da pausa" },
+      { start: 19.5, end: 25, text: "depois da pausa" },
+      { start: 45, end: 50.5, text: "fim" },
+    ];
+
+    const trimmed = mapSegmentsToTrimmed(regions, segments);
+
+    assert.deepEqual(trimmed.map(({ start, end }) => [start, end]), [[2, 8], [5, 10.5], [8, 13], [10.5, 16], [36, 41.5]]);
+    assert.deepEqual(mapSegmentsToOriginal(regions, trimmed), segments);
+  });
+});
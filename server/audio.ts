@@ -0,0 +1,375 @@
+import path from "path";
+import fs from "fs";
+import { exec } from "child_process";
+import { promisify } from "util";
+import { audioEnhancementSchema, type AudioEnhancement } from "@shared/schema";
+
+const execAsync = promisify(exec);
+
+// A piece of the original audio written to its own file for separate transcription
+export interface AudioChunk {
+  path: string;
+  startTime: number; // offset in seconds within the original audio
+  endTime: number;
+  overlap: number; // seconds at the start that the previous chunk also covers
+}
+
+export interface ChunkingOptions {
+  chunkDurationSeconds: number;
+  toleranceSeconds: number; // how far a cut may move to land on a pause
+  overlapSeconds: number; // extra audio each chunk repeats from the end of the previous one
+}
+
+// Reports how far along the current stage is (0 to 1) with a message for the user
+export type StageProgressCallback = (fraction: number, message: string) => void;
+
+export interface AudioStreamInfo {
+  position: number; // order among the file's audio streams, as used by -map 0:a:N
+  codec?: string;
+  sampleRate?: number;
+  channels?: number;
+  bitRate?: number;
+  language?: string; // ISO 639-2 tag from the container, e.g. "por"
+  title?: string;
+  isDefault: boolean;
+}
+
+export interface MediaInfo {
+  format?: string; // container as named by ffprobe, e.g. "mov,mp4,m4a,3gp,3g2,mj2"
+  duration?: number; // seconds
+  bitRate?: number;
+  size?: number; // bytes
+  audio: AudioStreamInfo[];
+  hasVideo: boolean;
+}
+
+// Subset of ffprobe's -show_format -show_streams JSON output; numbers come back as strings
+interface FfprobeStream {
+  codec_type?: string;
+  codec_name?: string;
+  sample_rate?: string;
+  channels?: number;
+  bit_rate?: string;
+  disposition?: { default?: number; attached_pic?: number };
+  tags?: { language?: string; title?: string };
+}
+
+interface FfprobeFormat {
+  format_name?: string;
+  duration?: string;
+  bit_rate?: string;
+  size?: string;
+}
+
+// Container language tags (ISO 639-2) for the languages offered on the upload form
+const STREAM_LANGUAGE_TAGS: Record<string, string[]> = {
+  pt: ['por', 'pt'],
+  en: ['eng', 'en'],
+  es: ['spa', 'es'],
+  fr: ['fra', 'fre', 'fr'],
+  de: ['deu', 'ger', 'de'],
+  it: ['ita', 'it'],
+};
+
+// What normalizeAudio produces: Whisper resamples everything to 16 kHz mono
+// anyway, and at 64 kbps an hour of speech fits in about 28MB
+export const NORMALIZED_AUDIO = {
+  format: 'mp3',
+  codec: 'mp3',
+  sampleRate: 16000,
+  channels: 1,
+  bitRate: 64000,
+} as const;
+
+// FFmpeg filter behind each enhancement option, tuned for speech
+const AUDIO_ENHANCEMENT_FILTERS: Record<AudioEnhancement, string> = {
+  highpass: 'highpass=f=100', // rumble, wind and machinery hum below the voice
+  lowpass: 'lowpass=f=5000', // hiss and tool whine above what speech needs
+  denoise: 'afftdn=nf=-25', // steady background noise; a high floor suits loud sites
+  loudnorm: 'loudnorm=I=-16:TP=-1.5:LRA=11', // EBU R128 loudness target
+};
+
+// Build the -af argument for the chosen enhancements. Filters always run in the
+// schema's order, so loudness is leveled after the noise has been removed.
+export function buildEnhancementFilterChain(enhancements: AudioEnhancement[]): string | undefined {
+  const filters = audioEnhancementSchema.options
+    .filter((enhancement) => enhancements.includes(enhancement))
+    .map((enhancement) => AUDIO_ENHANCEMENT_FILTERS[enhancement]);
+  return filters.length > 0 ? filters.join(',') : undefined;
+}
+
+function parseProbeNumber(value: string | undefined): number | undefined {
+  const parsed = value !== undefined ? parseFloat(value) : NaN;
+  return Number.isFinite(parsed) ? parsed : undefined;
+}
+
+// Describe a media file's container and streams using FFprobe
+export async function probeMedia(filePath: string): Promise<MediaInfo> {
+  const escapedPath = filePath.replace(/'/g, "'\\''");
+  const command = `ffprobe -v quiet -show_format -show_streams -of json '${escapedPath}'`;
+  const { stdout } = await execAsync(command);
+  const probe = JSON.parse(stdout) as { format?: FfprobeFormat; streams?: FfprobeStream[] };
+  const streams = probe.streams ?? [];
+
+  return {
+    format: probe.format?.format_name,
+    duration: parseProbeNumber(probe.format?.duration),
+    bitRate: parseProbeNumber(probe.format?.bit_rate),
+    size: parseProbeNumber(probe.format?.size),
+    audio: streams
+      .filter((stream) => stream.codec_type === 'audio')
+      .map((stream, position) => ({
+        position,
+        codec: stream.codec_name,
+        sampleRate: parseProbeNumber(stream.sample_rate),
+        channels: stream.channels,
+        bitRate: parseProbeNumber(stream.bit_rate),
+        language: stream.tags?.language,
+        title: stream.tags?.title,
+        isDefault: stream.disposition?.default === 1,
+      })),
+    // Cover art embedded in audio files shows up as a video stream too
+    hasVideo: streams.some((stream) => stream.codec_type === 'video' && stream.disposition?.attached_pic !== 1),
+  };
+}
+
+/**
+ * Picks the audio stream to transcribe from a file that has several, such as a
+ * video with dubbed or per-participant tracks
+ * @param streams - Audio streams found by probeMedia
+ * @param requested - Position chosen by the user, if any
+ * @param language - Language expected in the recording, used to match stream tags
+ */
+export function chooseAudioStream(
+  streams: AudioStreamInfo[],
+  requested?: number,
+  language?: string
+): AudioStreamInfo | undefined {
+  if (requested !== undefined && streams[requested]) {
+    return streams[requested];
+  }
+
+  const languageTags = language ? STREAM_LANGUAGE_TAGS[language] ?? [] : [];
+  return streams.find((stream) => stream.language && languageTags.includes(stream.language.toLowerCase()))
+    ?? streams.find((stream) => stream.isDefault)
+    ?? streams[0];
+}
+
+// Convert one audio stream of any file FFmpeg can read into a mono 16 kHz MP3,
+// dropping any picture so only what Whisper needs is uploaded and chunked, and
+// applying filterChain on the way when given. The input is removed either way,
+// as it is of no further use.
+export async function normalizeAudio(
+  inputPath: string,
+  streamPosition: number,
+  onProgress?: StageProgressCallback,
+  filterChain?: string
+): Promise<string> {
+  const outputPath = inputPath.replace(/\.[^./\\]+$/, '') + '-normalized.mp3';
+
+  try {
+    console.log(`Normalizing audio stream ${streamPosition}: ${inputPath} -> ${outputPath}`);
+
+    const escapedInputPath = inputPath.replace(/'/g, "'\\''");
+    const escapedOutputPath = outputPath.replace(/'/g, "'\\''");
+    const command = `ffmpeg -y -i '${escapedInputPath}' -map 0:a:${streamPosition} -vn ` +
+      (filterChain ? `-af '${filterChain}' ` : '') +
+      `-ac ${NORMALIZED_AUDIO.channels} -ar ${NORMALIZED_AUDIO.sampleRate} ` +
+      `-codec:a libmp3lame -b:a ${NORMALIZED_AUDIO.bitRate / 1000}k '${escapedOutputPath}'`;
+    console.log(`Running FFmpeg command: ${command}`);
+
+    await execAsync(command);
+
+    if (!fs.existsSync(outputPath) || fs.statSync(outputPath).size === 0) {
+      throw new Error('Conversion failed: output file is missing or empty');
+    }
+
+    onProgress?.(1, 'Conversão concluída');
+    fs.unlinkSync(inputPath);
+
+    return outputPath;
+  } catch (error) {
+    console.error('FFmpeg conversion error:', error);
+
+    if (fs.existsSync(outputPath)) {
+      fs.unlinkSync(outputPath);
+    }
+    if (fs.existsSync(inputPath)) {
+      fs.unlinkSync(inputPath);
+    }
+
+    throw new Error('Erro ao converter o arquivo. Verifique se ele não está corrompido.');
+  }
+}
+
+// Get audio duration in seconds using FFprobe
+export async function getAudioDuration(filePath: string): Promise<number> {
+  try {
+    const escapedPath = filePath.replace(/'/g, "'\\''");
+    const command = `ffprobe -v quiet -show_entries format=duration -of csv=p=0 '${escapedPath}'`;
+    const { stdout } = await execAsync(command);
+    return parseFloat(stdout.trim());
+  } catch (error) {
+    console.error('Error getting audio duration:', error);
+    throw new Error('Falha ao obter duração do áudio');
+  }
+}
+
+// Silence detection settings: anything quieter than the noise floor for at
+// least the minimum duration counts as a pause where the audio may be cut
+const SILENCE_NOISE_DB = -35;
+const SILENCE_MIN_DURATION_SECONDS = 0.4;
+
+// silencedetect logs a line per pause; long recordings can produce a lot of output
+const SILENCE_DETECT_MAX_BUFFER_BYTES = 64 * 1024 * 1024;
+
+export interface SilenceInterval {
+  start: number;
+  end: number;
+}
+
+// Find the pauses in an audio file using FFmpeg's silencedetect filter,
+// ignoring any shorter than minDurationSeconds
+export async function detectSilences(
+  filePath: string,
+  minDurationSeconds = SILENCE_MIN_DURATION_SECONDS
+): Promise<SilenceInterval[]> {
+  const escapedPath = filePath.replace(/'/g, "'\\''");
+  const command = `ffmpeg -hide_banner -nostats -i '${escapedPath}' ` +
+    `-af silencedetect=noise=${SILENCE_NOISE_DB}dB:d=${minDurationSeconds} -f null -`;
+  const { stderr } = await execAsync(command, { maxBuffer: SILENCE_DETECT_MAX_BUFFER_BYTES });
+
+  const silences: SilenceInterval[] = [];
+  let currentStart: number | undefined;
+  for (const line of stderr.split('\n')) {
+    const startMatch = line.match(/silence_start: (-?[\d.]+)/);
+    if (startMatch) {
+      currentStart = Math.max(parseFloat(startMatch[1]), 0);
+      continue;
+    }
+    const endMatch = line.match(/silence_end: ([\d.]+)/);
+    if (endMatch && currentStart !== undefined) {
+      silences.push({ start: currentStart, end: parseFloat(endMatch[1]) });
+      currentStart = undefined;
+    }
+  }
+  return silences;
+}
+
+// Choose where to cut the audio: each cut aims for chunkDurationSeconds after the
+// previous one but moves to the middle of the nearest pause within the tolerance
+// window, falling back to a hard cut at the target when there is none
+export function planChunkBoundaries(
+  totalDuration: number,
+  chunkDurationSeconds: number,
+  silences: SilenceInterval[],
+  toleranceSeconds: number
+): number[] {
+  const boundaries = [0];
+
+  while (totalDuration - boundaries[boundaries.length - 1] > chunkDurationSeconds) {
+    const previous = boundaries[boundaries.length - 1];
+    const target = previous + chunkDurationSeconds;
+    let cut = target;
+    let bestDistance = Infinity;
+
+    for (const silence of silences) {
+      const midpoint = (silence.start + silence.end) / 2;
+      const distance = Math.abs(midpoint - target);
+      if (distance <= toleranceSeconds && distance < bestDistance && midpoint > previous) {
+        cut = midpoint;
+        bestDistance = distance;
+      }
+    }
+
+    if (bestDistance === Infinity) {
+      console.log(`No pause within ${toleranceSeconds}s of ${target.toFixed(1)}s, cutting at the target`);
+    }
+    boundaries.push(cut);
+  }
+
+  return boundaries;
+}
+
+// Split audio file into chunks of roughly chunkDurationSeconds, cutting at pauses
+// within toleranceSeconds of each target so words are not sliced in half. Every
+// chunk after the first also starts overlapSeconds before its cut.
+export async function splitAudioIntoChunks(
+  inputPath: string,
+  { chunkDurationSeconds, toleranceSeconds, overlapSeconds }: ChunkingOptions,
+  onProgress?: StageProgressCallback
+): Promise<AudioChunk[]> {
+  const chunks: AudioChunk[] = [];
+  const timestamp = Date.now();
+  const outputDir = path.dirname(inputPath);
+  
+  try {
+    const totalDuration = await getAudioDuration(inputPath);
+
+    onProgress?.(0, 'Procurando pausas no áudio');
+    let silences: SilenceInterval[] = [];
+    try {
+      silences = await detectSilences(inputPath);
+    } catch (error) {
+      // Fixed-length cuts still work, they are just more likely to split a word
+      console.error('Silence detection failed, using fixed chunk boundaries:', error);
+    }
+
+    const boundaries = planChunkBoundaries(totalDuration, chunkDurationSeconds, silences, toleranceSeconds);
+    const numChunks = boundaries.length;
+    
+    console.log(`Splitting audio into ${numChunks} chunks at ${boundaries.map((b) => b.toFixed(1)).join(', ')}s`);
+    
+    for (let i = 0; i < numChunks; i++) {
+      const overlap = i > 0 ? Math.min(overlapSeconds, boundaries[i] - boundaries[i - 1]) : 0;
+      const startTime = boundaries[i] - overlap;
+      const chunkDuration = (i + 1 < numChunks ? boundaries[i + 1] : totalDuration) - startTime;
+      // Generate clean chunk filename with timestamp to avoid conflicts
+      const chunkPath = path.join(outputDir, `chunk_${timestamp}_${i + 1}.mp3`);
+      
+      const escapedInputPath = inputPath.replace(/'/g, "'\\''");
+      const escapedChunkPath = chunkPath.replace(/'/g, "'\\''");
+      
+      // Convert to MP3 during chunking to ensure compatibility
+      const command = `ffmpeg -y -i '${escapedInputPath}' -ss ${startTime} -t ${chunkDuration} -codec:a libmp3lame -b:a 128k '${escapedChunkPath}'`;
+      
+      console.log(`Creating chunk ${i + 1}/${numChunks}: ${chunkPath}`);
+      const { stdout, stderr } = await execAsync(command);
+      
+      if (stderr && !stderr.includes('size=')) {
+        console.log(`FFmpeg stderr for chunk ${i + 1}:`, stderr);
+      }
+      
+      if (fs.existsSync(chunkPath)) {
+        const stats = fs.statSync(chunkPath);
+        if (stats.size > 1000) { // Minimum 1KB for valid audio
+          chunks.push({ path: chunkPath, startTime, endTime: startTime + chunkDuration, overlap });
+          console.log(`Chunk ${i + 1} created successfully: ${chunkPath} (${stats.size} bytes)`);
+        } else {
+          console.log(`Chunk ${i + 1} is too small (${stats.size} bytes), skipping`);
+          fs.unlinkSync(chunkPath);
+        }
+      } else {
+        console.log(`Warning: Chunk ${i + 1} was not created: ${chunkPath}`);
+      }
+
+      onProgress?.((i + 1) / numChunks, `Segmento ${i + 1} de ${numChunks} criado`);
+    }
+    
+    if (chunks.length === 0) {
+      throw new Error('No valid chunks were created');
+    }
+    
+    return chunks;
+  } catch (error) {
+    // Clean up any created chunks on error
+    chunks.forEach(chunk => {
+      if (fs.existsSync(chunk.path)) {
+        fs.unlinkSync(chunk.path);
+      }
+    });
+    
+    console.error('Error splitting audio:', error);
+    throw new Error('Falha ao dividir arquivo de áudio');
+  }
+}
@@ -0,0 +1,429 @@
+import fs from "fs";
+import type {
+  InsertTranscriptionChunk,
+  JobChunk,
+  TranscriptSegment,
+  TranscriptionChunk,
+  TranscriptionTask,
+} from "@shared/schema";
+import {
+  getErrorCode,
+  transcriptionProvider,
+  type ProviderRetry,
+  type TranscriptionResult,
+} from "./providers";
+import { createDeferred, mapWithConcurrency } from "./concurrency";
+import { buildContinuationPrompt, stitchSegments } from "./stitching";
+import type { AudioChunk, StageProgressCallback } from "./audio";
+import { retainChunkAudio } from "./playback";
+
+// Number of chunks transcribed at the same time; lowered to the provider's own
+// limit when it has one
+const CHUNK_CONCURRENCY = Math.max(1, parseInt(process.env.CHUNK_CONCURRENCY || '3', 10) || 1);
+
+export type ChunkStatusCallback = (chunks: JobChunk[]) => void;
+
+export interface ChunkTranscriptionOptions {
+  language: string; // ISO 639-1 code or "auto"
+  task: TranscriptionTask;
+  // Called whenever a provider call for any chunk is retried after a temporary failure
+  onRetry?: (retry: ProviderRetry) => void;
+}
+
+export interface ChunkedTranscription {
+  text: string;
+  translatedText?: string;
+  duration: number;
+  segments: TranscriptSegment[];
+  language?: string;
+  chunks: InsertTranscriptionChunk[];
+}
+
+interface ChunkError {
+  code: string;
+  message: string;
+}
+
+interface ChunkOutcome {
+  result?: TranscriptionResult;
+  translation?: TranscriptionResult;
+  error?: ChunkError;
+  translationError?: ChunkError;
+}
+
+function toChunkError(error: unknown): ChunkError {
+  return {
+    code: getErrorCode(error),
+    message: error instanceof Error ? error.message : 'Erro desconhecido',
+  };
+}
+
+// Transcribe one chunk file and, in translate mode, translate it too. Failures
+// are recorded on the outcome instead of thrown so the other chunks carry on.
+async function transcribeChunkAudio(
+  audioPath: string,
+  originalFilename: string,
+  options: ChunkTranscriptionOptions & { prompt?: string },
+  onTranscribed?: (result: TranscriptionResult) => void
+): Promise<ChunkOutcome> {
+  const outcome: ChunkOutcome = {};
+
+  try {
+    outcome.result = await transcriptionProvider.transcribe(audioPath, {
+      originalFilename,
+      language: options.language,
+      prompt: options.prompt,
+      onRetry: options.onRetry,
+    });
+    onTranscribed?.(outcome.result);
+  } catch (error) {
+    console.error(`Error transcribing ${originalFilename}:`, error);
+    outcome.error = toChunkError(error);
+    return outcome;
+  }
+
+  if (options.task === 'translate') {
+    try {
+      outcome.translation = await transcriptionProvider.translate(audioPath, {
+        originalFilename,
+        language: options.language,
+        onRetry: options.onRetry,
+      });
+    } catch (error) {
+      console.error(`Error translating ${originalFilename}:`, error);
+      outcome.translationError = toChunkError(error);
+    }
+  }
+
+  return outcome;
+}
+
+// Move a chunk's segments from chunk time onto the timeline of the original audio
+function toOriginalTimeline(result: TranscriptionResult | undefined, offset: number) {
+  return result?.segments.map((segment) => ({
+    ...segment,
+    start: segment.start + offset,
+    end: segment.end + offset,
+  }));
+}
+
+function joinSegmentText(segments: TranscriptSegment[]): string {
+  return segments.map((segment) => segment.text).join(' ');
+}
+
+// Combine the text of every chunk that has some, in order
+function joinChunkText(chunks: InsertTranscriptionChunk[], field: 'text' | 'translatedText'): string {
+  return chunks
+    .map((chunk) => chunk[field])
+    .filter((text): text is string => !!text)
+    .join(' ');
+}
+
+// Describe a chunk's outcome for storage. Failed chunks keep their audio, moved
+// to the audio directory, so they can be retried.
+function toChunkRecord(
+  position: number,
+  range: { start: number; end: number; audioStart: number; audioPath: string },
+  outcome: ChunkOutcome,
+  text: string | null,
+  translatedText: string | null
+): InsertTranscriptionChunk {
+  const error = outcome.error ?? outcome.translationError;
+  return {
+    position,
+    start: range.start,
+    end: range.end,
+    status: error ? 'failed' : 'done',
+    errorCode: error?.code ?? null,
+    errorMessage: outcome.error
+      ? outcome.error.message
+      : outcome.translationError ? `Falha na tradução: ${outcome.translationError.message}` : null,
+    text,
+    translatedText,
+    audioPath: error ? retainChunkAudio(range.audioPath) : null,
+    audioStart: range.audioStart,
+  };
+}
+
+function removeFile(filePath: string) {
+  if (fs.existsSync(filePath)) {
+    fs.unlinkSync(filePath);
+  }
+}
+
+/**
+ * Transcribe chunks in parallel (up to the concurrency limit) and combine the
+ * transcriptions in their original order, shifting each chunk's segment times by
+ * the chunk's offset in the original audio. In translate mode each chunk is also
+ * translated and the translations combined. When chunks overlap, the speech
+ * both chunks heard is kept only once; if they are also transcribed one at a
+ * time, each one is prompted with the end of the previous transcript.
+ *
+ * Chunks that fail are left out of the text and reported in `chunks`, with
+ * their audio kept on disk for {@link retryFailedChunks}.
+ */
+export async function processAudioChunks(
+  chunks: AudioChunk[],
+  originalFileName: string,
+  options: ChunkTranscriptionOptions,
+  onProgress?: StageProgressCallback,
+  onChunkStatus?: ChunkStatusCallback
+): Promise<ChunkedTranscription> {
+  const concurrency = Math.min(CHUNK_CONCURRENCY, transcriptionProvider.maxConcurrency ?? Infinity);
+  const chunkStatuses: JobChunk[] = chunks.map((_, index) => ({ index, status: 'pending' }));
+  // Waiting for the previous transcript would run the chunks one after another,
+  // so continuation prompts are only sent when that is the case anyway
+  const promptWithPrevious = concurrency === 1 && chunks.some((chunk) => chunk.overlap > 0);
+  // Resolves with each chunk's transcription as soon as it is available, so the
+  // following chunk can be prompted with its ending
+  const transcribed = chunks.map(() => createDeferred<TranscriptionResult | undefined>());
+  let language = options.language;
+  let finishedChunks = 0;
+
+  const setChunkStatus = (index: number, update: Partial<JobChunk>) => {
+    chunkStatuses[index] = { ...chunkStatuses[index], ...update };
+    onChunkStatus?.([...chunkStatuses]);
+  };
+  const retryReporter = (index: number) => (retry: ProviderRetry) => {
+    setChunkStatus(index, { retries: (chunkStatuses[index].retries ?? 0) + 1 });
+    options.onRetry?.(retry);
+  };
+
+  console.log(`Processing ${chunks.length} audio chunks with concurrency ${concurrency}`);
+  onChunkStatus?.([...chunkStatuses]);
+
+  const transcribeChunk = async (chunk: AudioChunk, i: number): Promise<ChunkOutcome> => {
+    let prompt: string | undefined;
+    if (promptWithPrevious && i > 0) {
+      const previous = await transcribed[i - 1].promise;
+      prompt = previous
+        ? buildContinuationPrompt(previous.segments, chunk.startTime - chunks[i - 1].startTime)
+        : undefined;
+    }
+
+    console.log(`Processing chunk ${i + 1}/${chunks.length}: ${chunk.path}`);
+    setChunkStatus(i, { status: 'transcribing' });
+
+    const outcome = await transcribeChunkAudio(
+      chunk.path,
+      `${originalFileName}_chunk_${i + 1}`,
+      { language, task: options.task, prompt, onRetry: retryReporter(i) },
+      (result) => transcribed[i].resolve(result)
+    );
+    // Never leave the next chunk waiting for a prompt
+    transcribed[i].resolve(outcome.result);
+
+    const error = outcome.error ?? outcome.translationError;
+    if (error) {
+      setChunkStatus(i, { status: 'failed', error: error.message });
+    } else {
+      console.log(`Chunk ${i + 1} completed. Text length: ${outcome.result!.text.length} chars`);
+      setChunkStatus(i, { status: 'done' });
+      removeFile(chunk.path);
+    }
+
+    finishedChunks += 1;
+    onProgress?.(
+      finishedChunks / chunks.length,
+      `${finishedChunks} de ${chunks.length} segmentos processados`
+    );
+    return outcome;
+  };
+
+  // In auto mode, transcribe the first chunk on its own and reuse the language
+  // it detected for the rest, so a recording is not transcribed in a mix of languages
+  const outcomes: ChunkOutcome[] = [];
+  let remaining = chunks;
+  if (language === 'auto' && chunks.length > 1) {
+    const first = await transcribeChunk(chunks[0], 0);
+    if (first.result?.language) {
+      language = first.result.language;
+    }
+    outcomes.push(first);
+    remaining = chunks.slice(1);
+  }
+
+  const offset = outcomes.length;
+  outcomes.push(...await mapWithConcurrency(remaining, concurrency, (chunk, i) => transcribeChunk(chunk, i + offset)));
+
+  // Drop the speech repeated where neighbouring chunks overlap
+  const chunkSegments = outcomes.map((outcome, i) => toOriginalTimeline(outcome.result, chunks[i].startTime));
+  const translationSegments = outcomes.map((outcome, i) => toOriginalTimeline(outcome.translation, chunks[i].startTime));
+
+  const removeOverlaps = (segmentsByChunk: (TranscriptSegment[] | undefined)[]) => {
+    for (let i = 1; i < chunks.length; i++) {
+      const previous = segmentsByChunk[i - 1];
+      const next = segmentsByChunk[i];
+      if (chunks[i].overlap > 0 && previous && next) {
+        const overlapEnd = chunks[i].startTime + chunks[i].overlap;
+        const stitched = stitchSegments(previous, next, chunks[i].startTime, overlapEnd);
+        segmentsByChunk[i - 1] = stitched.previous;
+        segmentsByChunk[i] = stitched.next;
+      }
+    }
+  };
+  removeOverlaps(chunkSegments);
+  removeOverlaps(translationSegments);
+
+  // Chunks that share audio with a neighbour take their text from the trimmed
+  // segments; the others keep the text exactly as the provider returned it
+  const chunkText = (result: TranscriptionResult | undefined, segments: TranscriptSegment[] | undefined, i: number) => {
+    if (!result || !segments) {
+      return null;
+    }
+    return chunks[i].overlap > 0 || (chunks[i + 1]?.overlap ?? 0) > 0
+      ? joinSegmentText(segments)
+      : result.text.trim();
+  };
+
+  const records = outcomes.map((outcome, i) => toChunkRecord(
+    i,
+    {
+      start: chunks[i].startTime + chunks[i].overlap,
+      end: chunks[i].endTime,
+      audioStart: chunks[i].startTime,
+      audioPath: chunks[i].path,
+    },
+    outcome,
+    chunkText(outcome.result, chunkSegments[i], i),
+    chunkText(outcome.translation, translationSegments[i], i)
+  ));
+
+  const detected = outcomes.find((outcome) => outcome.result?.language);
+  return {
+    text: joinChunkText(records, 'text'),
+    translatedText: options.task === 'translate' ? joinChunkText(records, 'translatedText') : undefined,
+    duration: outcomes.reduce(
+      (total, outcome, i) => total + Math.max((outcome.result?.duration || 0) - chunks[i].overlap, 0),
+      0
+    ),
+    segments: chunkSegments.flatMap((segments) => segments ?? []),
+    language: detected?.result?.language,
+    chunks: records,
+  };
+}
+
+/**
+ * Re-transcribe the failed chunks of a saved transcription from the audio kept
+ * when they failed, merging the new text and segments with the chunks that
+ * already succeeded. Chunks without kept audio stay failed.
+ * @param chunks - All stored chunks of the transcription, in order
+ * @param segments - All stored segments of the transcription
+ * @returns The combined text, segments and updated chunk records
+ */
+export async function retryFailedChunks(
+  chunks: TranscriptionChunk[],
+  segments: TranscriptSegment[],
+  originalFileName: string,
+  options: ChunkTranscriptionOptions,
+  onProgress?: StageProgressCallback,
+  onChunkStatus?: ChunkStatusCallback
+): Promise<Omit<ChunkedTranscription, 'duration' | 'language'>> {
+  const concurrency = Math.min(CHUNK_CONCURRENCY, transcriptionProvider.maxConcurrency ?? Infinity);
+  const retryable = chunks.filter(isRetryableChunk);
+  const chunkStatuses: JobChunk[] = chunks.map((chunk) => ({
+    index: chunk.position,
+    status: retryable.includes(chunk) ? 'pending' : chunk.status === 'done' ? 'done' : 'failed',
+    error: chunk.errorMessage ?? undefined,
+  }));
+  let finishedChunks = 0;
+
+  const setChunkStatus = (position: number, update: Partial<JobChunk>) => {
+    const index = chunkStatuses.findIndex((chunk) => chunk.index === position);
+    chunkStatuses[index] = { ...chunkStatuses[index], ...update };
+    onChunkStatus?.([...chunkStatuses]);
+  };
+  const retryReporter = (position: number) => (retry: ProviderRetry) => {
+    const current = chunkStatuses.find((chunk) => chunk.index === position);
+    setChunkStatus(position, { retries: (current?.retries ?? 0) + 1 });
+    options.onRetry?.(retry);
+  };
+  onChunkStatus?.([...chunkStatuses]);
+
+  const records: InsertTranscriptionChunk[] = chunks.map(({ id, transcriptionId, ...record }) => record);
+  let mergedSegments = segments;
+
+  await mapWithConcurrency(retryable, concurrency, async (chunk) => {
+    setChunkStatus(chunk.position, { status: 'transcribing', error: undefined });
+    const outcome = await transcribeChunkAudio(
+      chunk.audioPath!,
+      `${originalFileName}_chunk_${chunk.position + 1}`,
+      { ...options, onRetry: retryReporter(chunk.position) }
+    );
+
+    // The neighbours kept everything they heard while this chunk was missing,
+    // so only the speech inside the chunk's own range is used
+    const index = chunks.indexOf(chunk);
+    const next = chunks[index + 1];
+    const trimToRange = (result: TranscriptionResult | undefined) =>
+      toOriginalTimeline(result, chunk.audioStart)?.filter((segment) => {
+        const midpoint = (segment.start + segment.end) / 2;
+        return (chunk.audioStart >= chunk.start || midpoint >= chunk.start) &&
+          (!next || next.audioStart >= chunk.end || midpoint < chunk.end);
+      });
+    const overlaps = chunk.audioStart < chunk.start || (!!next && next.audioStart < chunk.end);
+    const textFor = (result: TranscriptionResult | undefined) => {
+      const kept = trimToRange(result);
+      if (!result || !kept) {
+        return null;
+      }
+      return overlaps ? joinSegmentText(kept) : result.text.trim();
+    };
+
+    const record = toChunkRecord(
+      chunk.position,
+      { start: chunk.start, end: chunk.end, audioStart: chunk.audioStart, audioPath: chunk.audioPath! },
+      outcome,
+      textFor(outcome.result) ?? chunk.text,
+      textFor(outcome.translation) ?? chunk.translatedText
+    );
+    records[index] = record;
+
+    const newSegments = trimToRange(outcome.result);
+    if (newSegments) {
+      // Replace whatever this chunk had before, e.g. when only its translation failed
+      mergedSegments = mergedSegments
+        .filter((segment) => {
+          const midpoint = (segment.start + segment.end) / 2;
+          return midpoint < chunk.start || midpoint >= chunk.end;
+        })
+        .concat(newSegments)
+        .sort((a, b) => a.start - b.start);
+    }
+
+    if (record.status === 'done') {
+      removeFile(chunk.audioPath!);
+      setChunkStatus(chunk.position, { status: 'done' });
+    } else {
+      setChunkStatus(chunk.position, { status: 'failed', error: record.errorMessage ?? undefined });
+    }
+
+    finishedChunks += 1;
+    onProgress?.(
+      finishedChunks / retryable.length,
+      `${finishedChunks} de ${retryable.length} segmentos reprocessados`
+    );
+  });
+
+  return {
+    text: joinChunkText(records, 'text'),
+    translatedText: options.task === 'translate' ? joinChunkText(records, 'translatedText') : undefined,
+    segments: mergedSegments,
+    chunks: records,
+  };
+}
+
+// A failed chunk can only be retried while its audio is still on disk
+export function isRetryableChunk(chunk: TranscriptionChunk): boolean {
+  return chunk.status === 'failed' && !!chunk.audioPath && fs.existsSync(chunk.audioPath);
+}
+
+// Remove the audio kept for failed chunks, e.g. when their transcription is
+// deleted or could not be saved
+export function removeRetainedChunkAudio(chunks: InsertTranscriptionChunk[]) {
+  chunks.forEach((chunk) => {
+    if (chunk.audioPath) {
+      removeFile(chunk.audioPath);
+    }
+  });
+}
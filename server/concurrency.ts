@@ -0,0 +1,70 @@
+/**
+ * Runs an async function over every item with at most `limit` calls in flight,
+ * resolving to the results in the same order as the input
+ * @param items - Items to process
+ * @param limit - Maximum number of concurrent calls (at least 1)
+ * @param fn - Called with each item and its index
+ */
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  fn: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let nextIndex = 0;
+
+  // Each worker keeps taking the next unclaimed item until none are left
+  const worker = async () => {
+    while (nextIndex < items.length) {
+      const index = nextIndex++;
+      results[index] = await fn(items[index], index);
+    }
+  };
+
+  const workerCount = Math.min(Math.max(1, limit), items.length);
+  await Promise.all(Array.from({ length: workerCount }, worker));
+  return results;
+}
+
+export interface RateLimiter {
+  // Resolves once another request may be started
+  acquire(): Promise<void>;
+}
+
+/**
+ * Spaces request starts evenly so that no more than `requestsPerMinute` begin
+ * in any minute. A limit of 0 or less disables limiting.
+ */
+export function createRateLimiter(requestsPerMinute: number): RateLimiter {
+  if (requestsPerMinute <= 0) {
+    return { acquire: async () => {} };
+  }
+
+  const intervalMs = 60000 / requestsPerMinute;
+  let nextSlot = 0;
+
+  return {
+    acquire: async () => {
+      const now = Date.now();
+      const slot = Math.max(now, nextSlot);
+      nextSlot = slot + intervalMs;
+      if (slot > now) {
+        await new Promise((resolve) => setTimeout(resolve, slot - now));
+      }
+    },
+  };
+}
+
+export interface Deferred<T> {
+  promise: Promise<T>;
+  resolve(value: T): void;
+}
+
+// A promise that is resolved from outside, for work that waits on another task's result
+export function createDeferred<T>(): Deferred<T> {
+  let resolve!: (value: T) => void;
+  const promise = new Promise<T>((res) => {
+    resolve = res;
+  });
+  return { promise, resolve };
+}
@@ -0,0 +1,16 @@
+import pg from "pg";
+import { drizzle, type NodePgDatabase } from "drizzle-orm/node-postgres";
+import * as schema from "@shared/schema";
+
+export type Database = NodePgDatabase<typeof schema>;
+
+// Connect to PostgreSQL through a pooled node-postgres client
+export function createDb(connectionString: string): Database {
+  const pool = new pg.Pool({ connectionString });
+
+  pool.on("error", (error) => {
+    console.error("PostgreSQL pool error:", error);
+  });
+
+  return drizzle(pool, { schema });
+}
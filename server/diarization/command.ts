@@ -0,0 +1,70 @@
+import fs from "fs";
+import { execFile } from "child_process";
+import { promisify } from "util";
+import type { SpeakerTurn } from "@shared/schema";
+import type { Diarizer } from "./types";
+
+const execFileAsync = promisify(execFile);
+
+// Long meetings produce a line per speaker turn
+const MAX_OUTPUT_BUFFER_BYTES = 16 * 1024 * 1024;
+
+export interface CommandDiarizerConfig {
+  command: string; // executable that takes the audio path as its last argument
+  args?: string[];
+  timeoutMs?: number;
+}
+
+/**
+ * Parses RTTM, the plain-text format diarization tools such as pyannote.audio
+ * and NeMo write: one "SPEAKER <file> <channel> <start> <duration> <NA> <NA>
+ * <speaker> ..." line per turn
+ */
+export function parseRttm(output: string): SpeakerTurn[] {
+  const turns: SpeakerTurn[] = [];
+  for (const line of output.split("\n")) {
+    const fields = line.trim().split(/\s+/);
+    if (fields[0] !== "SPEAKER" || fields.length < 8) {
+      continue;
+    }
+    const start = parseFloat(fields[3]);
+    const duration = parseFloat(fields[4]);
+    if (Number.isFinite(start) && Number.isFinite(duration) && duration > 0) {
+      turns.push({ start, end: start + duration, speaker: fields[7] });
+    }
+  }
+  return turns.sort((a, b) => a.start - b.start);
+}
+
+/**
+ * Runs a local diarization program, so audio never leaves the server. Any tool
+ * works as long as it prints RTTM to stdout, e.g. a small pyannote.audio script.
+ */
+export class CommandDiarizer implements Diarizer {
+  readonly name = "command";
+
+  constructor(private config: CommandDiarizerConfig) {}
+
+  async diarize(audioFilePath: string): Promise<SpeakerTurn[]> {
+    if (!fs.existsSync(audioFilePath)) {
+      throw new Error("Arquivo de áudio não encontrado.");
+    }
+
+    const args = [...(this.config.args ?? []), audioFilePath];
+    console.log(`Running diarization: ${this.config.command} ${args.join(" ")}`);
+
+    try {
+      const { stdout } = await execFileAsync(this.config.command, args, {
+        maxBuffer: MAX_OUTPUT_BUFFER_BYTES,
+        timeout: this.config.timeoutMs,
+      });
+      return parseRttm(stdout);
+    } catch (error: any) {
+      console.error("Diarization command error:", error);
+      if (error?.code === "ENOENT") {
+        throw new Error("Programa de identificação de falantes não encontrado. Verifique a variável DIARIZATION_COMMAND.");
+      }
+      throw new Error("Falha ao identificar os falantes da gravação.");
+    }
+  }
+}
@@ -0,0 +1,42 @@
+import { CommandDiarizer } from "./command";
+import { MockDiarizer } from "./mock";
+import type { Diarizer } from "./types";
+
+export type { Diarizer, DiarizeOptions } from "./types";
+export { assignSpeakers, getDefaultSpeakerName, listSpeakers, renumberSpeakers } from "./speakers";
+
+// Pick the diarization backend from DIARIZATION_BACKEND; "none" (the default)
+// leaves speaker identification unavailable
+function createDiarizer(): Diarizer | null {
+  const backendName = (process.env.DIARIZATION_BACKEND || "none").toLowerCase();
+
+  switch (backendName) {
+    case "none":
+      return null;
+
+    case "command": {
+      const command = process.env.DIARIZATION_COMMAND;
+      if (!command) {
+        throw new Error("DIARIZATION_COMMAND must name a program that prints RTTM when DIARIZATION_BACKEND=command");
+      }
+
+      console.log(`Using local diarization command ${command}`);
+      return new CommandDiarizer({
+        command,
+        args: process.env.DIARIZATION_ARGS?.split(" ").filter(Boolean),
+        timeoutMs: process.env.DIARIZATION_TIMEOUT_MS ? parseInt(process.env.DIARIZATION_TIMEOUT_MS, 10) : undefined,
+      });
+    }
+
+    case "mock":
+      console.log("Using mock diarization backend");
+      return new MockDiarizer({
+        speakerCount: process.env.MOCK_DIARIZATION_SPEAKERS ? parseInt(process.env.MOCK_DIARIZATION_SPEAKERS, 10) : undefined,
+      });
+
+    default:
+      throw new Error(`Unknown DIARIZATION_BACKEND "${backendName}". Use "none", "command" or "mock".`);
+  }
+}
+
+export const diarizer: Diarizer | null = createDiarizer();
@@ -0,0 +1,33 @@
+import type { SpeakerTurn } from "@shared/schema";
+import type { DiarizeOptions, Diarizer } from "./types";
+
+export interface MockDiarizerConfig {
+  speakerCount?: number;
+  turnSeconds?: number;
+}
+
+/**
+ * Deterministic diarizer for development and automated tests: speakers take
+ * turns of a fixed length in rotation, so labels can be checked against
+ * segment times without any model installed.
+ */
+export class MockDiarizer implements Diarizer {
+  readonly name = "mock";
+
+  constructor(private config: MockDiarizerConfig = {}) {}
+
+  async diarize(audioFilePath: string, { duration = 0 }: DiarizeOptions = {}): Promise<SpeakerTurn[]> {
+    const speakerCount = Math.max(1, this.config.speakerCount ?? 2);
+    const turnSeconds = this.config.turnSeconds ?? 10;
+    const turns: SpeakerTurn[] = [];
+
+    for (let start = 0, i = 0; start < duration; start += turnSeconds, i++) {
+      turns.push({
+        start,
+        end: Math.min(start + turnSeconds, duration),
+        speaker: `MOCK_SPEAKER_${i % speakerCount}`,
+      });
+    }
+    return turns;
+  }
+}
@@ -0,0 +1,65 @@
+import type { Diarization, SpeakerTurn, TranscriptSegment } from "@shared/schema";
+
+// Label shown until a speaker is given a name
+export function getDefaultSpeakerName(speakerId: string): string {
+  return `Falante ${speakerId}`;
+}
+
+// Replace the backend's speaker labels with "1", "2"... in order of first
+// appearance, so labels read naturally and do not depend on the backend
+export function renumberSpeakers(turns: SpeakerTurn[]): SpeakerTurn[] {
+  const ids = new Map<string, string>();
+  return [...turns]
+    .sort((a, b) => a.start - b.start)
+    .map((turn) => {
+      if (!ids.has(turn.speaker)) {
+        ids.set(turn.speaker, String(ids.size + 1));
+      }
+      return { ...turn, speaker: ids.get(turn.speaker)! };
+    });
+}
+
+/**
+ * Label each segment with the speaker whose turns cover most of it; a segment
+ * no turn touches (e.g. speech the backend missed) takes the nearest turn's
+ * speaker
+ */
+export function assignSpeakers(segments: TranscriptSegment[], turns: SpeakerTurn[]): TranscriptSegment[] {
+  if (turns.length === 0) {
+    return segments;
+  }
+
+  return segments.map((segment) => {
+    const overlapBySpeaker = new Map<string, number>();
+    for (const turn of turns) {
+      const overlap = Math.min(segment.end, turn.end) - Math.max(segment.start, turn.start);
+      if (overlap > 0) {
+        overlapBySpeaker.set(turn.speaker, (overlapBySpeaker.get(turn.speaker) ?? 0) + overlap);
+      }
+    }
+
+    let speaker: string | undefined;
+    let best = 0;
+    overlapBySpeaker.forEach((overlap, candidate) => {
+      if (overlap > best) {
+        speaker = candidate;
+        best = overlap;
+      }
+    });
+
+    if (!speaker) {
+      const midpoint = (segment.start + segment.end) / 2;
+      const distance = (turn: SpeakerTurn) =>
+        midpoint < turn.start ? turn.start - midpoint : Math.max(midpoint - turn.end, 0);
+      speaker = turns.reduce((nearest, turn) => (distance(turn) < distance(nearest) ? turn : nearest)).speaker;
+    }
+
+    return { ...segment, speaker };
+  });
+}
+
+// Every speaker of a transcription, in order of first appearance, with the name to show
+export function listSpeakers(diarization: Diarization): { id: string; name: string }[] {
+  const ids = Array.from(new Set(diarization.turns.map((turn) => turn.speaker)));
+  return ids.map((id) => ({ id, name: diarization.names[id] || getDefaultSpeakerName(id) }));
+}
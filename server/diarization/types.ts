@@ -0,0 +1,15 @@
+import type { SpeakerTurn } from "@shared/schema";
+
+export interface DiarizeOptions {
+  // Length of the audio in seconds, when already known from transcription
+  duration?: number;
+}
+
+/**
+ * Finds who speaks when in a recording. Speaker labels are whatever the
+ * backend uses (e.g. "SPEAKER_00"); they are renumbered before being stored.
+ */
+export interface Diarizer {
+  readonly name: string;
+  diarize(audioFilePath: string, options?: DiarizeOptions): Promise<SpeakerTurn[]>;
+}
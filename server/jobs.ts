@@ -0,0 +1,95 @@
+import { type TranscriptionJob, type JobState, type JobChunk, type TranscriptionResponse } from "@shared/schema";
+import { randomUUID } from "crypto";
+import { EventEmitter } from "events";
+
+// Finished jobs are kept around long enough for the client to pick up the result
+const JOB_RETENTION_MS = 60 * 60 * 1000; // 1 hour
+
+export interface JobUpdate {
+  state?: JobState;
+  progress?: number;
+  message?: string;
+  error?: string;
+  result?: TranscriptionResponse;
+  chunks?: JobChunk[];
+  retries?: number;
+}
+
+export interface IJobStore {
+  createJob(filename: string): TranscriptionJob;
+  getJob(id: string): TranscriptionJob | undefined;
+  updateJob(id: string, update: JobUpdate): TranscriptionJob | undefined;
+  subscribe(id: string, listener: JobListener): () => void;
+}
+
+export type JobListener = (job: TranscriptionJob) => void;
+
+export function isJobFinished(job: TranscriptionJob): boolean {
+  return job.state === "done" || job.state === "failed";
+}
+
+export class MemJobStore implements IJobStore {
+  private jobs: Map<string, TranscriptionJob>;
+  private events: EventEmitter;
+
+  constructor() {
+    this.jobs = new Map();
+    this.events = new EventEmitter();
+    // Every open SSE connection holds a listener, so the default cap of 10 is too low
+    this.events.setMaxListeners(0);
+  }
+
+  createJob(filename: string): TranscriptionJob {
+    this.pruneExpiredJobs();
+
+    const now = new Date().toISOString();
+    const job: TranscriptionJob = {
+      id: randomUUID(),
+      state: "queued",
+      filename,
+      progress: 0,
+      createdAt: now,
+      updatedAt: now,
+    };
+    this.jobs.set(job.id, job);
+    return job;
+  }
+
+  getJob(id: string): TranscriptionJob | undefined {
+    return this.jobs.get(id);
+  }
+
+  updateJob(id: string, update: JobUpdate): TranscriptionJob | undefined {
+    const job = this.jobs.get(id);
+    if (!job) {
+      return undefined;
+    }
+
+    const updatedJob: TranscriptionJob = {
+      ...job,
+      ...update,
+      updatedAt: new Date().toISOString(),
+    };
+    this.jobs.set(id, updatedJob);
+    this.events.emit(id, updatedJob);
+    return updatedJob;
+  }
+
+  subscribe(id: string, listener: JobListener): () => void {
+    this.events.on(id, listener);
+    return () => {
+      this.events.off(id, listener);
+    };
+  }
+
+  private pruneExpiredJobs() {
+    const cutoff = Date.now() - JOB_RETENTION_MS;
+    this.jobs.forEach((job, id) => {
+      if (isJobFinished(job) && new Date(job.updatedAt).getTime() < cutoff) {
+        this.jobs.delete(id);
+      }
+    });
+  }
+}
+
+export const jobs = new MemJobStore();
@@ -0,0 +1,516 @@
+import fs from "fs";
+import path from "path";
+import { randomUUID } from "crypto";
+import type { IncomingMessage, Server } from "http";
+import type { Duplex } from "stream";
+import { WebSocketServer, WebSocket, type RawData } from "ws";
+import {
+  liveClientMessageSchema,
+  LIVE_SAMPLE_RATE,
+  LIVE_TRANSCRIPTION_PATH,
+  type InsertTranscriptionChunk,
+  type LanguageOption,
+  type LiveServerMessage,
+  type TranscriptSegment,
+  type TranscriptionResponse,
+} from "@shared/schema";
+import { getErrorCode, transcriptionProvider, type TranscriptionResult } from "./providers";
+import { removeRetainedChunkAudio } from "./chunks";
+import { AUDIO_DIRECTORY, RETAIN_AUDIO, retainChunkAudio } from "./playback";
+import { buildContinuationPrompt } from "./stitching";
+import { UPLOAD_DIRECTORY } from "./uploads";
+
+// 16-bit mono samples
+const BYTES_PER_SECOND = LIVE_SAMPLE_RATE * 2;
+
+// New audio needed before the pending text is transcribed again
+const LIVE_PARTIAL_INTERVAL_SECONDS = 2;
+
+// Pending audio is finalized once it is this long, cut at the quietest moment
+// of its last few seconds so words are not split between windows
+const LIVE_WINDOW_SECONDS = Math.max(5, parseFloat(process.env.LIVE_WINDOW_SECONDS || '15') || 15);
+const LIVE_CUT_SEARCH_SECONDS = 4;
+const QUIET_FRAME_BYTES = BYTES_PER_SECOND / 10;
+
+// Audio quieter than this everywhere (RMS, 0-1) is not sent; Whisper tends to
+// make up phrases for silence
+const SILENT_WINDOW_RMS = 0.01;
+
+// Same limit as recordings made in the browser
+const LIVE_MAX_SESSION_SECONDS = 2 * 60 * 60;
+
+// Connections that do not send "start" within this time are closed
+const LIVE_START_TIMEOUT_MS = 10000;
+
+// Clients send a few hundred milliseconds of audio per frame
+const LIVE_MAX_FRAME_BYTES = 1024 * 1024;
+
+export interface LiveSessionResult {
+  filename: string;
+  language: LanguageOption; // as requested
+  detectedLanguage?: string; // as reported by the provider
+  duration: number;
+  sizeBytes: number;
+  processingTime: number; // seconds spent waiting on the provider
+  segments: TranscriptSegment[];
+  chunks: InsertTranscriptionChunk[]; // one per finalized window
+  audioPath: string | null; // the whole session as WAV, when audio is retained
+}
+
+// Stores a finished session and returns it the way the REST API would
+export type LiveSessionSaver = (result: LiveSessionResult) => Promise<TranscriptionResponse>;
+
+// e.g. "ao-vivo-2024-05-10-14h32.wav"
+function getSessionFileName(date: Date): string {
+  const pad = (value: number) => String(value).padStart(2, '0');
+  const stamp = `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}-${pad(date.getHours())}h${pad(date.getMinutes())}`;
+  return `ao-vivo-${stamp}.wav`;
+}
+
+// Root mean square of the samples in [start, end) bytes, on a 0-1 scale
+function getRms(pcm: Buffer, start = 0, end = pcm.length): number {
+  let sum = 0;
+  let count = 0;
+  for (let offset = start; offset + 1 < end; offset += 2) {
+    const sample = pcm.readInt16LE(offset) / 32768;
+    sum += sample * sample;
+    count += 1;
+  }
+  return count > 0 ? Math.sqrt(sum / count) : 0;
+}
+
+function isSilent(pcm: Buffer): boolean {
+  for (let start = 0; start < pcm.length; start += QUIET_FRAME_BYTES) {
+    if (getRms(pcm, start, Math.min(start + QUIET_FRAME_BYTES, pcm.length)) >= SILENT_WINDOW_RMS) {
+      return false;
+    }
+  }
+  return true;
+}
+
+// Byte offset of the quietest frame near the end of the audio
+function findQuietCut(pcm: Buffer): number {
+  const searchStart = Math.max(0, pcm.length - LIVE_CUT_SEARCH_SECONDS * BYTES_PER_SECOND);
+  let cut = pcm.length;
+  let quietest = Infinity;
+  for (let start = searchStart; start + QUIET_FRAME_BYTES <= pcm.length; start += QUIET_FRAME_BYTES) {
+    const rms = getRms(pcm, start, start + QUIET_FRAME_BYTES);
+    if (rms < quietest) {
+      quietest = rms;
+      cut = start + QUIET_FRAME_BYTES / 2;
+    }
+  }
+  return cut;
+}
+
+function buildWavHeader(dataBytes: number): Buffer {
+  const header = Buffer.alloc(44);
+  header.write('RIFF', 0);
+  header.writeUInt32LE(36 + dataBytes, 4);
+  header.write('WAVE', 8);
+  header.write('fmt ', 12);
+  header.writeUInt32LE(16, 16); // PCM format chunk size
+  header.writeUInt16LE(1, 20); // linear PCM
+  header.writeUInt16LE(1, 22); // mono
+  header.writeUInt32LE(LIVE_SAMPLE_RATE, 24);
+  header.writeUInt32LE(BYTES_PER_SECOND, 28);
+  header.writeUInt16LE(2, 32); // bytes per sample frame
+  header.writeUInt16LE(16, 34); // bits per sample
+  header.write('data', 36);
+  header.writeUInt32LE(dataBytes, 40);
+  return header;
+}
+
+async function writeWavFile(filePath: string, pcm: Buffer): Promise<void> {
+  await fs.promises.writeFile(filePath, Buffer.concat([buildWavHeader(pcm.length), pcm]));
+}
+
+function toBuffer(data: RawData): Buffer {
+  if (Array.isArray(data)) {
+    return Buffer.concat(data);
+  }
+  return data instanceof ArrayBuffer ? Buffer.from(data) : data;
+}
+
+/**
+ * One microphone stream. Audio waits in a pending buffer that is transcribed
+ * again every couple of seconds for partial text; once it reaches the window
+ * length the part up to a quiet moment is transcribed one last time and its
+ * segments become final. Provider calls run one at a time, so a slow provider
+ * only makes windows longer. On "stop" or disconnect the rest is finalized and
+ * the session saved.
+ */
+class LiveSession {
+  readonly id = randomUUID();
+  private readonly startedAt = new Date();
+  private language: LanguageOption = 'pt';
+  private started = false;
+  private stopping = false;
+  private finished = false;
+  private busy = false;
+  private startTimeout: NodeJS.Timeout;
+
+  private pending: Buffer[] = [];
+  private pendingBytes = 0;
+  private committedBytes = 0; // audio already finalized, i.e. where the pending audio starts
+  private partialAtBytes = 0; // pending length when the last partial was transcribed
+  private windowCount = 0;
+
+  private segments: TranscriptSegment[] = [];
+  private chunks: InsertTranscriptionChunk[] = [];
+  private detectedLanguage?: string;
+  private providerSeconds = 0;
+
+  // Everything received, written as it arrives; the WAV header is completed at the end
+  private recording: fs.WriteStream | null = null;
+  private recordingPath: string | null = null;
+
+  constructor(private socket: WebSocket, private save: LiveSessionSaver) {
+    this.startTimeout = setTimeout(() => this.fail('A sessão não foi iniciada a tempo.'), LIVE_START_TIMEOUT_MS);
+  }
+
+  handleMessage(data: RawData, isBinary: boolean) {
+    if (this.stopping) {
+      return;
+    }
+    if (isBinary) {
+      this.handleAudio(toBuffer(data));
+      return;
+    }
+
+    let message: unknown;
+    try {
+      message = JSON.parse(toBuffer(data).toString('utf8'));
+    } catch {
+      message = undefined;
+    }
+    const parsed = liveClientMessageSchema.safeParse(message);
+    if (!parsed.success) {
+      this.fail('Mensagem inválida.');
+      return;
+    }
+
+    if (parsed.data.type === 'start') {
+      if (this.started) {
+        return;
+      }
+      clearTimeout(this.startTimeout);
+      this.started = true;
+      this.language = parsed.data.language;
+      this.openRecording();
+      console.log(`Live session ${this.id} started (language: ${this.language})`);
+      this.send({ type: 'ready', sessionId: this.id });
+    } else {
+      this.stop();
+    }
+  }
+
+  // The client went away; whatever was heard is still saved
+  handleClose() {
+    clearTimeout(this.startTimeout);
+    if (this.started) {
+      this.stop();
+    }
+  }
+
+  private handleAudio(frame: Buffer) {
+    if (!this.started) {
+      this.fail('Envie a mensagem de início antes do áudio.');
+      return;
+    }
+    if (frame.length % 2 !== 0) {
+      this.fail('Formato de áudio inválido. Envie PCM de 16 bits.');
+      return;
+    }
+
+    this.pending.push(frame);
+    this.pendingBytes += frame.length;
+    this.recording?.write(frame);
+
+    if ((this.committedBytes + this.pendingBytes) / BYTES_PER_SECOND >= LIVE_MAX_SESSION_SECONDS) {
+      this.send({ type: 'error', message: 'A sessão atingiu o tempo máximo e foi encerrada.', fatal: false });
+      this.stop();
+      return;
+    }
+    this.pump();
+  }
+
+  private stop() {
+    this.stopping = true;
+    this.pump();
+  }
+
+  // Do whatever provider work is due, one call at a time
+  private async pump() {
+    if (this.busy || this.finished) {
+      return;
+    }
+    this.busy = true;
+    try {
+      while (!this.finished) {
+        if (this.pendingBytes >= LIVE_WINDOW_SECONDS * BYTES_PER_SECOND) {
+          const pcm = Buffer.concat(this.pending, this.pendingBytes);
+          await this.finalize(findQuietCut(pcm));
+        } else if (this.stopping) {
+          if (this.pendingBytes > 0) {
+            await this.finalize(this.pendingBytes);
+          }
+          await this.finish();
+          break;
+        } else if (this.pendingBytes - this.partialAtBytes >= LIVE_PARTIAL_INTERVAL_SECONDS * BYTES_PER_SECOND) {
+          await this.transcribePartial();
+        } else {
+          break;
+        }
+      }
+    } catch (error) {
+      console.error(`Live session ${this.id} error:`, error);
+      this.fail('Erro interno do servidor. Tente novamente mais tarde.');
+    } finally {
+      this.busy = false;
+    }
+  }
+
+  // Take the first `bytes` of pending audio off the buffer
+  private takePending(bytes: number): Buffer {
+    const pcm = Buffer.concat(this.pending, this.pendingBytes);
+    const rest = pcm.subarray(bytes);
+    this.pending = rest.length > 0 ? [rest] : [];
+    this.pendingBytes = rest.length;
+    this.partialAtBytes = 0;
+    return pcm.subarray(0, bytes);
+  }
+
+  private async transcribePartial() {
+    const pcm = Buffer.concat(this.pending, this.pendingBytes);
+    this.partialAtBytes = pcm.length;
+    const start = this.committedBytes / BYTES_PER_SECOND;
+
+    let text = '';
+    if (!isSilent(pcm)) {
+      const audioPath = this.getWindowPath('partial');
+      try {
+        const result = await this.transcribeWindow(audioPath, pcm, start);
+        text = result.text.trim();
+      } catch (error) {
+        // The final pass over this audio reports failures; a missed partial is not worth one
+        console.log(`Live session ${this.id} partial failed:`, (error as Error).message);
+        return;
+      } finally {
+        await fs.promises.rm(audioPath, { force: true });
+      }
+    }
+    this.send({ type: 'partial', text, start });
+  }
+
+  private async finalize(bytes: number) {
+    const pcm = this.takePending(bytes);
+    const start = this.committedBytes / BYTES_PER_SECOND;
+    const end = start + pcm.length / BYTES_PER_SECOND;
+    this.committedBytes += pcm.length;
+    const position = this.chunks.length;
+    const range = { position, start, end, audioStart: start };
+
+    if (isSilent(pcm)) {
+      this.chunks.push({
+        ...range,
+        status: 'done',
+        text: null,
+        translatedText: null,
+        errorCode: null,
+        errorMessage: null,
+        audioPath: null,
+      });
+      this.send({ type: 'partial', text: '', start: end });
+      return;
+    }
+
+    const audioPath = this.getWindowPath(`chunk-${position + 1}`);
+    let result: TranscriptionResult;
+    try {
+      result = await this.transcribeWindow(audioPath, pcm, start);
+    } catch (error) {
+      // The window's audio is kept with the retained audio so it can be retried from the saved transcription
+      const message = error instanceof Error ? error.message : 'Erro desconhecido';
+      this.chunks.push({
+        ...range,
+        status: 'failed',
+        text: null,
+        translatedText: null,
+        errorCode: getErrorCode(error),
+        errorMessage: message,
+        audioPath: retainChunkAudio(audioPath),
+      });
+      this.send({ type: 'error', message: `Um trecho não foi transcrito: ${message}`, fatal: false });
+      return;
+    }
+    await fs.promises.rm(audioPath, { force: true });
+
+    const segments = result.segments.map((segment) => ({
+      ...segment,
+      start: Math.min(start + segment.start, end),
+      end: Math.min(start + segment.end, end),
+    }));
+    this.segments.push(...segments);
+    this.detectedLanguage ??= result.language;
+    this.chunks.push({
+      ...range,
+      status: 'done',
+      text: result.text.trim() || null,
+      translatedText: null,
+      errorCode: null,
+      errorMessage: null,
+      audioPath: null,
+    });
+    this.send({ type: 'final', segments });
+    this.send({ type: 'partial', text: '', start: end });
+  }
+
+  private getWindowPath(label: string): string {
+    this.windowCount += 1;
+    return path.join(UPLOAD_DIRECTORY, `live-${this.id}-${this.windowCount}-${label}.wav`);
+  }
+
+  private async transcribeWindow(audioPath: string, pcm: Buffer, start: number): Promise<TranscriptionResult> {
+    await writeWavFile(audioPath, pcm);
+    const calledAt = Date.now();
+    try {
+      return await transcriptionProvider.transcribe(audioPath, {
+        originalFilename: path.basename(audioPath),
+        language: this.language,
+        prompt: buildContinuationPrompt(this.segments, start),
+      });
+    } finally {
+      this.providerSeconds += (Date.now() - calledAt) / 1000;
+    }
+  }
+
+  private async finish() {
+    this.finished = true;
+    const duration = this.committedBytes / BYTES_PER_SECOND;
+    console.log(`Live session ${this.id} ended after ${duration.toFixed(1)}s of audio`);
+
+    if (!this.chunks.some((chunk) => chunk.text || chunk.status === 'failed')) {
+      this.fail('Nenhuma fala foi transcrita nesta sessão.');
+      return;
+    }
+
+    let audioPath: string | null = null;
+    try {
+      audioPath = await this.closeRecording();
+    } catch (error) {
+      // The transcript is still worth saving without playback
+      console.error(`Live session ${this.id} audio could not be kept:`, error);
+      this.discardRecording();
+    }
+
+    try {
+      const transcription = await this.save({
+        filename: getSessionFileName(this.startedAt),
+        language: this.language,
+        detectedLanguage: this.detectedLanguage,
+        duration,
+        sizeBytes: this.committedBytes + 44,
+        processingTime: this.providerSeconds,
+        segments: this.segments,
+        chunks: this.chunks,
+        audioPath,
+      });
+      this.send({ type: 'saved', transcription });
+      this.socket.close(1000);
+    } catch (error) {
+      console.error(`Live session ${this.id} could not be saved:`, error);
+      if (audioPath) {
+        await fs.promises.rm(audioPath, { force: true });
+      }
+      this.fail('Não foi possível salvar a transcrição.');
+    }
+  }
+
+  // Report an error that ends the session. Nothing is saved, so the audio kept
+  // for failed windows has nothing left to retry it from.
+  private fail(message: string) {
+    this.send({ type: 'error', message, fatal: true });
+    this.stopping = true;
+    this.finished = true;
+    this.pending = [];
+    this.pendingBytes = 0;
+    this.discardRecording();
+    removeRetainedChunkAudio(this.chunks);
+    this.socket.close(1000);
+  }
+
+  private openRecording() {
+    if (!RETAIN_AUDIO) {
+      return;
+    }
+    const recordingPath = path.join(AUDIO_DIRECTORY, `live-${this.id}.wav`);
+    const recording = fs.createWriteStream(recordingPath);
+    recording.on('error', (error) => {
+      console.error(`Live session ${this.id} could not write its audio:`, error);
+      this.discardRecording();
+    });
+    recording.write(buildWavHeader(0));
+    this.recording = recording;
+    this.recordingPath = recordingPath;
+  }
+
+  // Finish the WAV file now that its length is known
+  private async closeRecording(): Promise<string | null> {
+    const recording = this.recording;
+    const recordingPath = this.recordingPath;
+    if (!recording || !recordingPath) {
+      return null;
+    }
+    this.recording = null;
+
+    await new Promise<void>((resolve, reject) => {
+      recording.once('error', reject);
+      recording.end(() => resolve());
+    });
+    const file = await fs.promises.open(recordingPath, 'r+');
+    try {
+      await file.write(buildWavHeader(this.committedBytes), 0, 44, 0);
+    } finally {
+      await file.close();
+    }
+    return recordingPath;
+  }
+
+  private discardRecording() {
+    this.recording?.destroy();
+    this.recording = null;
+    if (this.recordingPath) {
+      fs.promises.rm(this.recordingPath, { force: true }).catch(() => {});
+      this.recordingPath = null;
+    }
+  }
+
+  private send(message: LiveServerMessage) {
+    if (this.socket.readyState === WebSocket.OPEN) {
+      this.socket.send(JSON.stringify(message));
+    }
+  }
+}
+
+/**
+ * Accept live transcription sessions on LIVE_TRANSCRIPTION_PATH. Other upgrade
+ * requests, such as Vite's HMR socket in development, are left alone.
+ */
+export function attachLiveTranscription(server: Server, save: LiveSessionSaver) {
+  const wss = new WebSocketServer({ noServer: true, maxPayload: LIVE_MAX_FRAME_BYTES });
+
+  server.on('upgrade', (req: IncomingMessage, socket: Duplex, head: Buffer) => {
+    const { pathname } = new URL(req.url ?? '/', 'http://localhost');
+    if (pathname !== LIVE_TRANSCRIPTION_PATH) {
+      return;
+    }
+
+    wss.handleUpgrade(req, socket, head, (ws) => {
+      const session = new LiveSession(ws, save);
+      ws.on('message', (data, isBinary) => session.handleMessage(data, isBinary));
+      ws.on('close', () => session.handleClose());
+      ws.on('error', (error) => console.error(`Live session ${session.id} socket error:`, error));
+    });
+  });
+}
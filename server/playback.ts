@@ -0,0 +1,73 @@
+import fs from "fs";
+import path from "path";
+import type { Transcription } from "@shared/schema";
+import { UPLOAD_DIRECTORY } from "./uploads";
+
+// Audio kept after transcription so it can be played back next to the transcript
+export const AUDIO_DIRECTORY = path.join(UPLOAD_DIRECTORY, 'audio');
+
+// Set RETAIN_AUDIO=false to delete the audio once transcribed, e.g. on small disks
+export const RETAIN_AUDIO = process.env.RETAIN_AUDIO !== 'false';
+
+fs.mkdirSync(AUDIO_DIRECTORY, { recursive: true });
+
+/**
+ * Move a transcribed file into the audio directory and return its new path,
+ * or delete it and return null when audio is not retained
+ */
+export async function retainAudio(filePath: string): Promise<string | null> {
+  if (!RETAIN_AUDIO) {
+    await fs.promises.rm(filePath, { force: true });
+    return null;
+  }
+  const retainedPath = path.join(AUDIO_DIRECTORY, path.basename(filePath));
+  await fs.promises.rename(filePath, retainedPath);
+  return retainedPath;
+}
+
+/**
+ * Move the audio of a failed chunk into the audio directory, where it waits for
+ * a retry and where the startup cleanup finds it if its transcription is gone.
+ * Kept even when RETAIN_AUDIO is off, as the retry needs it.
+ */
+export function retainChunkAudio(filePath: string): string {
+  const retainedPath = path.join(AUDIO_DIRECTORY, path.basename(filePath));
+  if (path.resolve(filePath) !== path.resolve(retainedPath) && fs.existsSync(filePath)) {
+    fs.renameSync(filePath, retainedPath);
+  }
+  return retainedPath;
+}
+
+export function removeRetainedAudio(transcription: Transcription) {
+  if (transcription.audioPath && fs.existsSync(transcription.audioPath)) {
+    fs.unlinkSync(transcription.audioPath);
+  }
+}
+
+/**
+ * Delete files in the audio directory that no transcription or failed chunk
+ * points to, such as audio kept before a restart while transcriptions only
+ * lived in memory, or chunk audio of a job that died before it was saved. Only
+ * safe before uploads and live sessions start writing there.
+ * @returns How many files were removed
+ */
+export async function removeOrphanedAudio(referencedPaths: string[]): Promise<number> {
+  const referenced = new Set(referencedPaths.map((audioPath) => path.resolve(audioPath)));
+  const entries = await fs.promises.readdir(AUDIO_DIRECTORY, { withFileTypes: true });
+
+  let removed = 0;
+  for (const entry of entries) {
+    const filePath = path.resolve(AUDIO_DIRECTORY, entry.name);
+    if (entry.isFile() && !referenced.has(filePath)) {
+      await fs.promises.rm(filePath, { force: true });
+      removed += 1;
+    }
+  }
+  return removed;
+}
+
+export function getPlaybackUrl(transcription: Transcription): string | undefined {
+  return transcription.audioPath && fs.existsSync(transcription.audioPath)
+    ? `/api/transcriptions/${transcription.id}/audio`
+    : undefined;
+}
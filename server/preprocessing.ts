@@ -0,0 +1,142 @@
+import fs from "fs";
+import path from "path";
+import type {
+  MediaDescription,
+  MediaPreprocessing,
+  PreprocessingReason,
+  TranscribeRequest,
+} from "@shared/schema";
+import type { AcceptedInput, TranscriptionProvider } from "./providers";
+import {
+  buildEnhancementFilterChain,
+  chooseAudioStream,
+  normalizeAudio,
+  probeMedia,
+  NORMALIZED_AUDIO,
+  type AudioStreamInfo,
+  type MediaInfo,
+  type StageProgressCallback,
+} from "./audio";
+import { isVideoFilename, type UploadedAudioFile } from "./uploads";
+
+export interface PreprocessedAudio {
+  path: string;
+  filename: string; // name to give the provider, with the extension of the file actually sent
+  preprocessing: MediaPreprocessing;
+}
+
+// Whether the provider takes this file and stream without conversion
+function isAcceptedInput(
+  filename: string,
+  stream: AudioStreamInfo | undefined,
+  accepted: AcceptedInput
+): boolean {
+  const ext = path.extname(filename).toLowerCase();
+  if (!accepted.extensions.includes(ext)) {
+    return false;
+  }
+  // Without a probe only the extension can be judged
+  return !stream?.codec || accepted.codecs.includes(stream.codec);
+}
+
+function getPreprocessingReasons(
+  file: UploadedAudioFile,
+  request: TranscribeRequest,
+  media: MediaInfo | null,
+  stream: AudioStreamInfo | undefined,
+  accepted: AcceptedInput | undefined
+): PreprocessingReason[] {
+  const reasons: PreprocessingReason[] = [];
+
+  if (isVideoFilename(file.originalname) || media?.hasVideo) {
+    reasons.push('video');
+  }
+  if (media && media.audio.length > 1) {
+    reasons.push('multiple_audio_streams');
+  }
+  // Providers without declared limits decode anything FFmpeg can, except OPUS,
+  // which only the conversion path has ever handled
+  if (accepted ? !isAcceptedInput(file.originalname, stream, accepted) : file.originalname.toLowerCase().endsWith('.opus')) {
+    reasons.push('unsupported_format');
+  }
+  if (accepted && file.size > accepted.maxFileSizeBytes) {
+    reasons.push('too_large');
+  }
+  // MediaRecorder writes WebM without a duration, which chunking depends on
+  if (media && !(media.duration && media.duration > 0)) {
+    reasons.push('missing_duration');
+  }
+  if (request.enhancements.length > 0) {
+    reasons.push('enhancement');
+  }
+
+  return reasons;
+}
+
+function describeInput(media: MediaInfo, stream: AudioStreamInfo | undefined): MediaDescription {
+  return {
+    format: media.format,
+    codec: stream?.codec,
+    sampleRate: stream?.sampleRate,
+    channels: stream?.channels,
+    bitRate: stream?.bitRate ?? media.bitRate,
+    size: media.size,
+  };
+}
+
+/**
+ * Probes an upload and, when the provider would not take it as it is or audio
+ * filters were requested, converts the chosen audio stream to mono 16 kHz MP3.
+ * The returned preprocessing record says what was found, what was done and
+ * why, for storing with the transcription.
+ */
+export async function preprocessAudio(
+  file: UploadedAudioFile,
+  request: TranscribeRequest,
+  provider: TranscriptionProvider,
+  onProgress: StageProgressCallback
+): Promise<PreprocessedAudio> {
+  onProgress(0, 'Analisando o arquivo');
+
+  const media = await probeMedia(file.path).catch((error) => {
+    console.log('Could not probe media file:', error);
+    return null;
+  });
+  if (media && media.audio.length === 0) {
+    throw new Error('O arquivo não contém uma faixa de áudio para transcrever.');
+  }
+
+  const stream = media ? chooseAudioStream(media.audio, request.audioStream, request.language) : undefined;
+  const reasons = getPreprocessingReasons(file, request, media, stream, provider.acceptedInput);
+  const filterChain = buildEnhancementFilterChain(request.enhancements);
+  const preprocessing: MediaPreprocessing = {
+    applied: false,
+    reasons,
+    input: media ? describeInput(media, stream) : undefined,
+    audioStream: media && media.audio.length > 1 ? stream?.position : undefined,
+    audioStreamCount: media?.audio.length,
+    enhancements: request.enhancements.length > 0 ? request.enhancements : undefined,
+    filterChain,
+  };
+
+  if (reasons.length === 0) {
+    onProgress(1, 'Nenhuma conversão necessária');
+    return { path: file.path, filename: file.originalname, preprocessing };
+  }
+
+  console.log(`Preprocessing ${file.originalname} (${reasons.join(', ')}), audio stream ${stream?.position ?? 0}`);
+  onProgress(0.1, reasons.includes('video')
+    ? 'Extraindo o áudio do vídeo'
+    : filterChain ? 'Aplicando filtros de áudio' : 'Convertendo o áudio para MP3');
+  const outputPath = await normalizeAudio(file.path, stream?.position ?? 0, onProgress, filterChain);
+
+  return {
+    path: outputPath,
+    filename: file.originalname.replace(/\.[^.]+$/, '') + '.mp3',
+    preprocessing: {
+      ...preprocessing,
+      applied: true,
+      output: { ...NORMALIZED_AUDIO, size: fs.statSync(outputPath).size },
+    },
+  };
+}
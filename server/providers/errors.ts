@@ -0,0 +1,49 @@
+// Machine-readable reasons a provider call failed, stored per chunk so clients
+// can tell temporary failures from ones a retry will not fix
+export type TranscriptionErrorCode =
+  | "not_configured"
+  | "invalid_api_key"
+  | "insufficient_quota"
+  | "rate_limited"
+  | "model_not_found"
+  | "file_too_large"
+  | "unsupported_format"
+  | "provider_unavailable"
+  | "circuit_open"
+  | "network"
+  | "timeout"
+  | "binary_not_found"
+  | "invalid_output"
+  | "no_speech"
+  | "unknown";
+
+export interface TranscriptionErrorOptions {
+  // Whether the same request may succeed if sent again later
+  retryable?: boolean;
+  // How long the provider asked us to wait before retrying (Retry-After)
+  retryAfterMs?: number;
+}
+
+/**
+ * Error raised by transcription providers. The message is ready to be shown to
+ * the user; the code identifies the cause.
+ */
+export class TranscriptionError extends Error {
+  readonly retryable: boolean;
+  readonly retryAfterMs?: number;
+
+  constructor(readonly code: TranscriptionErrorCode, message: string, options: TranscriptionErrorOptions = {}) {
+    super(message);
+    this.name = "TranscriptionError";
+    this.retryable = options.retryable ?? false;
+    this.retryAfterMs = options.retryAfterMs;
+  }
+}
+
+export function getErrorCode(error: unknown): TranscriptionErrorCode {
+  return error instanceof TranscriptionError ? error.code : "unknown";
+}
+
+export function isRetryableError(error: unknown): error is TranscriptionError {
+  return error instanceof TranscriptionError && error.retryable;
+}
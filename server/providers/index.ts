@@ -0,0 +1,77 @@
+import { OpenAIWhisperProvider } from "./openai";
+import { WhisperCppProvider } from "./whisper-cpp";
+import { MockTranscriptionProvider, isMockFailure } from "./mock";
+import { createRateLimiter } from "../concurrency";
+import { CircuitBreaker, ResilientTranscriptionProvider } from "./resilient";
+import type { TranscriptionProvider } from "./types";
+
+export type { AcceptedInput, TranscriptionProvider, TranscriptionResult, TranscribeOptions, ProviderRetry } from "./types";
+export { TranscriptionError, getErrorCode, type TranscriptionErrorCode } from "./errors";
+
+// Pick the transcription backend from TRANSCRIPTION_PROVIDER ("openai" by default)
+function createTranscriptionProvider(): TranscriptionProvider {
+  const providerName = (process.env.TRANSCRIPTION_PROVIDER || "openai").toLowerCase();
+
+  switch (providerName) {
+    case "openai":
+      console.log("Using OpenAI Whisper transcription provider");
+      return new OpenAIWhisperProvider(process.env.OPENAI_API_KEY || process.env.OPENAI_API_KEY_ENV_VAR);
+
+    case "whisper-cpp": {
+      const modelPath = process.env.WHISPER_CPP_MODEL;
+      if (!modelPath) {
+        throw new Error("WHISPER_CPP_MODEL must point to a whisper.cpp model file when TRANSCRIPTION_PROVIDER=whisper-cpp");
+      }
+
+      console.log(`Using local whisper.cpp transcription provider with model ${modelPath}`);
+      return new WhisperCppProvider({
+        binaryPath: process.env.WHISPER_CPP_BINARY || "whisper-cli",
+        modelPath,
+        threads: process.env.WHISPER_CPP_THREADS ? parseInt(process.env.WHISPER_CPP_THREADS, 10) : undefined,
+      });
+    }
+
+    case "mock": {
+      const failureName = process.env.MOCK_TRANSCRIPTION_FAILURE;
+      if (failureName && !isMockFailure(failureName)) {
+        throw new Error(`Unknown MOCK_TRANSCRIPTION_FAILURE "${failureName}"`);
+      }
+      const failure = failureName && isMockFailure(failureName) ? failureName : undefined;
+
+      console.log(`Using mock transcription provider${failure ? ` (failure: ${failure})` : ""}`);
+      return new MockTranscriptionProvider({
+        failure,
+        failOnCalls: process.env.MOCK_TRANSCRIPTION_FAIL_CALLS
+          ?.split(",")
+          .map((call) => parseInt(call.trim(), 10))
+          .filter((call) => !Number.isNaN(call)),
+        delayMs: process.env.MOCK_TRANSCRIPTION_DELAY_MS ? parseInt(process.env.MOCK_TRANSCRIPTION_DELAY_MS, 10) : undefined,
+      });
+    }
+
+    default:
+      throw new Error(`Unknown TRANSCRIPTION_PROVIDER "${providerName}". Use "openai", "whisper-cpp" or "mock".`);
+  }
+}
+
+function readNumber(name: string, fallback: number): number {
+  const value = parseInt(process.env[name] || "", 10);
+  return Number.isNaN(value) || value < 0 ? fallback : value;
+}
+
+// Every caller shares one retry policy, circuit breaker and rate limiter, so
+// parallel chunks from all uploads together stay under the provider's limits
+export const transcriptionProvider: TranscriptionProvider = new ResilientTranscriptionProvider(
+  createTranscriptionProvider(),
+  {
+    maxRetries: readNumber("TRANSCRIPTION_MAX_RETRIES", 3),
+    baseDelayMs: readNumber("TRANSCRIPTION_RETRY_BASE_DELAY_MS", 1000),
+    maxDelayMs: 30000,
+  },
+  new CircuitBreaker({
+    failureThreshold: readNumber("CIRCUIT_BREAKER_THRESHOLD", 5) || 1,
+    cooldownMs: readNumber("CIRCUIT_BREAKER_COOLDOWN_MS", 30000),
+  }),
+  // 0 (the default) disables the limit
+  createRateLimiter(readNumber("TRANSCRIPTION_REQUESTS_PER_MINUTE", 0))
+);
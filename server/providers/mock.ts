@@ -0,0 +1,123 @@
+import fs from "fs";
+import { getAudioDuration } from "../audio";
+import { toUserFacingError } from "./openai";
+import type { TranscriptionTask } from "@shared/schema";
+import type { TranscribeOptions, TranscriptionProvider, TranscriptionResult } from "./types";
+
+// Length of each generated segment, in seconds
+const MOCK_SEGMENT_SECONDS = 5;
+
+// Rough MP3 byte rate (128 kbps) used to estimate duration when FFprobe is unavailable
+const FALLBACK_BYTES_PER_SECOND = 16000;
+
+// Errors shaped like the ones the OpenAI client throws, keyed by the names
+// accepted in MOCK_TRANSCRIPTION_FAILURE
+const MOCK_FAILURES = {
+  invalid_key: { code: "invalid_api_key" },
+  quota: { code: "insufficient_quota" },
+  too_large: { status: 413 },
+  bad_request: { status: 400 },
+  server_error: { status: 500 },
+  network: { code: "ENOTFOUND" },
+  // Temporary failures that the resilient wrapper retries
+  rate_limited: { status: 429, headers: { "retry-after": "1" } },
+  connection_reset: { code: "ECONNRESET" },
+  timeout: { code: "ETIMEDOUT" },
+} as const;
+
+export type MockFailure = keyof typeof MOCK_FAILURES;
+
+export function isMockFailure(value: string): value is MockFailure {
+  return value in MOCK_FAILURES;
+}
+
+export interface MockProviderConfig {
+  failure?: MockFailure;
+  // 1-based call numbers that fail; when empty, every call fails
+  failOnCalls?: number[];
+  delayMs?: number;
+}
+
+/**
+ * Deterministic provider for development and automated tests: it never calls a
+ * remote service and produces one numbered segment every few seconds of audio,
+ * so chunking and timestamps can be checked against the input duration.
+ */
+export class MockTranscriptionProvider implements TranscriptionProvider {
+  readonly name = "mock";
+  private calls = 0;
+
+  constructor(private config: MockProviderConfig = {}) {}
+
+  async transcribe(audioFilePath: string, options: TranscribeOptions = {}): Promise<TranscriptionResult> {
+    return this.generate(audioFilePath, options, "transcribe");
+  }
+
+  async translate(audioFilePath: string, options: TranscribeOptions = {}): Promise<TranscriptionResult> {
+    return this.generate(audioFilePath, options, "translate");
+  }
+
+  private async generate(
+    audioFilePath: string,
+    options: TranscribeOptions,
+    task: TranscriptionTask
+  ): Promise<TranscriptionResult> {
+    this.calls += 1;
+
+    if (!fs.existsSync(audioFilePath)) {
+      throw new Error("Arquivo de áudio não encontrado.");
+    }
+
+    if (this.config.delayMs) {
+      await new Promise((resolve) => setTimeout(resolve, this.config.delayMs));
+    }
+
+    if (this.shouldFail()) {
+      // Go through the same mapping as the real provider so error messages match production
+      throw toUserFacingError(MOCK_FAILURES[this.config.failure!], options.originalFilename);
+    }
+
+    const duration = await this.getDuration(audioFilePath);
+    const segmentCount = Math.max(1, Math.ceil(duration / MOCK_SEGMENT_SECONDS));
+    const segments = Array.from({ length: segmentCount }, (_, i) => ({
+      start: i * MOCK_SEGMENT_SECONDS,
+      end: Math.min((i + 1) * MOCK_SEGMENT_SECONDS, duration),
+      text: task === "translate"
+        ? `Simulated excerpt ${i + 1} of ${segmentCount}.`
+        : `Trecho simulado ${i + 1} de ${segmentCount}.`,
+      avgLogprob: -0.1,
+    }));
+
+    return {
+      text: segments.map((segment) => segment.text).join(" "),
+      duration,
+      segments,
+      // There is nothing to detect, so auto mode reports the historical default
+      language: task === "translate"
+        ? "en"
+        : options.language && options.language !== "auto" ? options.language : "pt",
+    };
+  }
+
+  private shouldFail(): boolean {
+    if (!this.config.failure) {
+      return false;
+    }
+    const failOnCalls = this.config.failOnCalls ?? [];
+    return failOnCalls.length === 0 || failOnCalls.includes(this.calls);
+  }
+
+  private async getDuration(audioFilePath: string): Promise<number> {
+    try {
+      const duration = await getAudioDuration(audioFilePath);
+      if (Number.isFinite(duration) && duration > 0) {
+        return duration;
+      }
+    } catch (error) {
+      console.log("Mock provider could not probe audio duration, estimating from file size");
+    }
+
+    const { size } = await fs.promises.stat(audioFilePath);
+    return Math.max(size / FALLBACK_BYTES_PER_SECOND, 1);
+  }
+}
@@ -0,0 +1,212 @@
+import OpenAI from "openai";
+import type { TranslationVerbose } from "openai/resources/audio/translations";
+import fs from "fs";
+import type { TranscriptionTask } from "@shared/schema";
+import { TranscriptionError } from "./errors";
+import type { AcceptedInput, TranscribeOptions, TranscriptionProvider, TranscriptionResult } from "./types";
+
+// verbose_json reports the detected language by its English name instead of its ISO code
+const WHISPER_LANGUAGE_CODES: Record<string, string> = {
+  portuguese: "pt",
+  english: "en",
+  spanish: "es",
+  french: "fr",
+  german: "de",
+  italian: "it",
+};
+
+// M4A and MP4 are on the API's list, but files from phones and recorders are
+// often rejected with a 400, so those are always converted first
+const OPENAI_ACCEPTED_INPUT: AcceptedInput = {
+  extensions: [".mp3", ".mpga", ".mpeg", ".wav", ".flac", ".ogg", ".oga", ".webm"],
+  codecs: ["mp3", "flac", "vorbis", "opus", "pcm_s16le", "pcm_s24le", "pcm_f32le"],
+  maxFileSizeBytes: 25 * 1024 * 1024,
+};
+
+export class OpenAIWhisperProvider implements TranscriptionProvider {
+  readonly name = "openai";
+  readonly acceptedInput = OPENAI_ACCEPTED_INPUT;
+  private client: OpenAI | null;
+
+  constructor(apiKey: string | undefined) {
+    // the newest OpenAI model is "gpt-4o" which was released May 13, 2024. do not change this unless explicitly requested by the user
+    // However, for audio transcription we use whisper-1 model specifically
+    // Retries are handled by ResilientTranscriptionProvider, which also honors Retry-After
+    this.client = apiKey ? new OpenAI({ apiKey, maxRetries: 0 }) : null;
+  }
+
+  /**
+   * Transcribes audio file using OpenAI Whisper API
+   * @param audioFilePath - Path to the audio file to transcribe
+   * @returns Promise containing transcription text, duration and timed segments
+   */
+  async transcribe(audioFilePath: string, options: TranscribeOptions = {}): Promise<TranscriptionResult> {
+    return transcribeWithOpenAI(this.requireClient(), audioFilePath, options, "transcribe");
+  }
+
+  /**
+   * Translates the speech in an audio file to English using OpenAI Whisper API
+   * @param audioFilePath - Path to the audio file to translate
+   * @returns Promise containing English text, duration and timed segments
+   */
+  async translate(audioFilePath: string, options: TranscribeOptions = {}): Promise<TranscriptionResult> {
+    return transcribeWithOpenAI(this.requireClient(), audioFilePath, options, "translate");
+  }
+
+  private requireClient(): OpenAI {
+    if (!this.client) {
+      throw new TranscriptionError("not_configured", "Chave da API OpenAI não configurada. Defina OPENAI_API_KEY ou escolha outro provedor de transcrição.");
+    }
+    return this.client;
+  }
+}
+
+async function transcribeWithOpenAI(
+  openai: OpenAI,
+  audioFilePath: string,
+  { originalFilename, language, prompt }: TranscribeOptions,
+  task: TranscriptionTask
+): Promise<TranscriptionResult> {
+  try {
+    // Verify file exists
+    if (!fs.existsSync(audioFilePath)) {
+      throw new Error("Arquivo de áudio não encontrado.");
+    }
+
+    // For MP3 files, use directly; for chunks, they should already be MP3
+    let fileToTranscribe = audioFilePath;
+
+    // Create read stream for the audio file
+    const audioReadStream = fs.createReadStream(fileToTranscribe);
+
+    // Call OpenAI Whisper API for transcription, or translation into English
+    const transcription = task === "translate"
+      ? await openai.audio.translations.create({
+          file: audioReadStream,
+          model: "whisper-1",
+          response_format: "verbose_json",
+        }) as TranslationVerbose
+      : await openai.audio.transcriptions.create({
+          file: audioReadStream,
+          model: "whisper-1",
+          response_format: "verbose_json", // includes duration and per-segment timing
+          // Language hint for better accuracy; omitted in auto mode so Whisper detects it
+          language: language && language !== "auto" ? language : undefined,
+          prompt,
+        });
+
+    // No cleanup needed since we're using the file directly
+
+    // Validate transcription result
+    if (!transcription.text || transcription.text.trim().length === 0) {
+      throw new Error("Não foi possível extrair texto do arquivo de áudio. Verifique se o arquivo contém fala audível.");
+    }
+
+    return {
+      text: transcription.text.trim(),
+      duration: transcription.duration,
+      language: WHISPER_LANGUAGE_CODES[transcription.language?.toLowerCase()] ?? transcription.language,
+      segments: (transcription.segments ?? []).map((segment) => ({
+        start: segment.start,
+        end: segment.end,
+        text: segment.text.trim(),
+        avgLogprob: segment.avg_logprob,
+      })),
+    };
+
+  } catch (error: any) {
+    console.error(`OpenAI ${task} error:`, error);
+    throw toUserFacingError(error, originalFilename);
+  }
+}
+
+/**
+ * Maps an error raised by the OpenAI API client (or a network failure) to an
+ * error whose message can be shown to the user
+ * @param error - Error thrown while calling the API
+ * @param originalFilename - Name of the uploaded file, used to tailor format errors
+ */
+export function toUserFacingError(error: any, originalFilename?: string): TranscriptionError {
+  // Handle specific OpenAI API errors
+  if (error.code === 'invalid_api_key') {
+    return new TranscriptionError("invalid_api_key", "Chave da API OpenAI inválida. Verifique a configuração.");
+  }
+  
+  if (error.code === 'insufficient_quota') {
+    return new TranscriptionError("insufficient_quota", "Cota da API OpenAI excedida. Tente novamente mais tarde.");
+  }
+  
+  if (error.status === 429) {
+    return new TranscriptionError("rate_limited", "Limite de requisições do serviço de transcrição atingido. Tente novamente em instantes.", {
+      retryable: true,
+      retryAfterMs: getRetryAfterMs(error),
+    });
+  }
+
+  if (error.code === 'model_not_found') {
+    return new TranscriptionError("model_not_found", "Modelo de transcrição não disponível. Tente novamente mais tarde.");
+  }
+  
+  if (error.status === 413) {
+    return new TranscriptionError("file_too_large", "Arquivo muito grande para processamento. Reduza o tamanho do arquivo.");
+  }
+  
+  if (error.status === 400) {
+    if (originalFilename && originalFilename.toLowerCase().endsWith('.m4a')) {
+      return new TranscriptionError("unsupported_format", "Este arquivo M4A não é compatível com o serviço de transcrição. Tente converter o arquivo para MP3 ou WAV antes de fazer o upload.");
+    }
+    return new TranscriptionError("unsupported_format", "Formato de arquivo não suportado ou arquivo corrompido.");
+  }
+  
+  if (error.status >= 500) {
+    return new TranscriptionError("provider_unavailable", "Erro temporário do serviço de transcrição. Tente novamente em alguns minutos.", {
+      retryable: true,
+      retryAfterMs: getRetryAfterMs(error),
+    });
+  }
+
+  if (error instanceof OpenAI.APIConnectionTimeoutError || error.code === 'ETIMEDOUT') {
+    return new TranscriptionError("timeout", "O serviço de transcrição demorou demais para responder. Tente novamente.", {
+      retryable: true,
+    });
+  }
+  
+  // Network or other errors; dropped connections are usually temporary, unknown hosts are not
+  const connectionCode = error.code ?? error.cause?.code;
+  if (error instanceof OpenAI.APIConnectionError || TRANSIENT_NETWORK_CODES.includes(connectionCode)) {
+    return new TranscriptionError("network", "Erro de conexão com o serviço de transcrição. Verifique sua conexão com a internet.", {
+      retryable: true,
+    });
+  }
+  if (connectionCode === 'ENOTFOUND') {
+    return new TranscriptionError("network", "Erro de conexão com o serviço de transcrição. Verifique sua conexão com a internet.");
+  }
+  
+  // Generic error message
+  return new TranscriptionError("unknown", "Erro ao processar o arquivo de áudio. Verifique se o arquivo não está corrompido e tente novamente.");
+}
+
+// Socket errors that are worth retrying on a fresh connection
+const TRANSIENT_NETWORK_CODES = ['ECONNRESET', 'ECONNREFUSED', 'EPIPE', 'EAI_AGAIN'];
+
+// Read the wait the API asked for, from retry-after-ms or Retry-After (seconds or an HTTP date)
+function getRetryAfterMs(error: any): number | undefined {
+  const readHeader = (name: string): string | undefined =>
+    typeof error.headers?.get === 'function' ? error.headers.get(name) ?? undefined : error.headers?.[name];
+
+  const retryAfterMs = Number(readHeader('retry-after-ms'));
+  if (Number.isFinite(retryAfterMs) && retryAfterMs > 0) {
+    return retryAfterMs;
+  }
+
+  const retryAfter = readHeader('retry-after');
+  if (!retryAfter) {
+    return undefined;
+  }
+  const seconds = Number(retryAfter);
+  if (Number.isFinite(seconds)) {
+    return Math.max(seconds * 1000, 0);
+  }
+  const date = Date.parse(retryAfter);
+  return Number.isNaN(date) ? undefined : Math.max(date - Date.now(), 0);
+}
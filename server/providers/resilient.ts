@@ -0,0 +1,133 @@
+import type { RateLimiter } from "../concurrency";
+import { TranscriptionError, isRetryableError } from "./errors";
+import type { AcceptedInput, TranscribeOptions, TranscriptionProvider, TranscriptionResult } from "./types";
+
+export interface RetryPolicy {
+  maxRetries: number;
+  baseDelayMs: number; // delay before the first retry, doubled for each one after
+  maxDelayMs: number;
+}
+
+export interface CircuitBreakerConfig {
+  failureThreshold: number; // consecutive temporary failures that open the circuit
+  cooldownMs: number; // how long to fail fast before trying the provider again
+}
+
+/**
+ * Stops calling a provider that keeps failing. After `failureThreshold`
+ * consecutive failures the circuit opens and calls fail immediately; once the
+ * cooldown passes a single trial call is let through, and its outcome decides
+ * whether the circuit closes again.
+ */
+export class CircuitBreaker {
+  private state: "closed" | "open" | "half-open" = "closed";
+  private consecutiveFailures = 0;
+  private openedAt = 0;
+  private trialInFlight = false;
+
+  constructor(private config: CircuitBreakerConfig) {}
+
+  allowRequest(): boolean {
+    if (this.state === "open" && Date.now() - this.openedAt >= this.config.cooldownMs) {
+      this.state = "half-open";
+    }
+    if (this.state === "half-open" && !this.trialInFlight) {
+      this.trialInFlight = true;
+      return true;
+    }
+    return this.state === "closed";
+  }
+
+  recordSuccess() {
+    this.state = "closed";
+    this.consecutiveFailures = 0;
+    this.trialInFlight = false;
+  }
+
+  recordFailure() {
+    this.consecutiveFailures += 1;
+    this.trialInFlight = false;
+    if (this.state === "half-open" || this.consecutiveFailures >= this.config.failureThreshold) {
+      if (this.state !== "open") {
+        console.warn(`Transcription provider circuit opened after ${this.consecutiveFailures} consecutive failures`);
+      }
+      this.state = "open";
+      this.openedAt = Date.now();
+    }
+  }
+}
+
+// Full jitter: a random wait up to the exponential backoff for this attempt, but
+// never shorter than what the provider asked for. Both are capped by maxDelayMs,
+// so a long Retry-After cannot hold a job for an hour while it looks in progress.
+export function getRetryDelay(attempt: number, policy: RetryPolicy, retryAfterMs?: number): number {
+  const backoff = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** attempt);
+  return Math.max(Math.round(Math.random() * backoff), Math.min(retryAfterMs ?? 0, policy.maxDelayMs));
+}
+
+/**
+ * Wraps a provider so temporary failures (rate limits, 5xx, dropped connections,
+ * timeouts) are retried with jittered exponential backoff, every attempt goes
+ * through the shared rate limiter, and calls fail fast while the provider is down.
+ */
+export class ResilientTranscriptionProvider implements TranscriptionProvider {
+  readonly name: string;
+  readonly maxConcurrency?: number;
+  readonly acceptedInput?: AcceptedInput;
+
+  constructor(
+    private provider: TranscriptionProvider,
+    private policy: RetryPolicy,
+    private breaker: CircuitBreaker,
+    private rateLimiter: RateLimiter
+  ) {
+    this.name = provider.name;
+    this.maxConcurrency = provider.maxConcurrency;
+    this.acceptedInput = provider.acceptedInput;
+  }
+
+  async transcribe(audioFilePath: string, options: TranscribeOptions = {}): Promise<TranscriptionResult> {
+    return this.withRetries(() => this.provider.transcribe(audioFilePath, options), options);
+  }
+
+  async translate(audioFilePath: string, options: TranscribeOptions = {}): Promise<TranscriptionResult> {
+    return this.withRetries(() => this.provider.translate(audioFilePath, options), options);
+  }
+
+  private async withRetries(
+    call: () => Promise<TranscriptionResult>,
+    options: TranscribeOptions
+  ): Promise<TranscriptionResult> {
+    for (let attempt = 0; ; attempt++) {
+      if (!this.breaker.allowRequest()) {
+        throw new TranscriptionError(
+          "circuit_open",
+          "O serviço de transcrição está indisponível no momento. Tente novamente em alguns minutos."
+        );
+      }
+
+      await this.rateLimiter.acquire();
+      try {
+        const result = await call();
+        this.breaker.recordSuccess();
+        return result;
+      } catch (error) {
+        if (!isRetryableError(error)) {
+          // The provider answered, so it is up even though this request failed
+          this.breaker.recordSuccess();
+          throw error;
+        }
+
+        this.breaker.recordFailure();
+        if (attempt >= this.policy.maxRetries) {
+          throw error;
+        }
+
+        const delayMs = getRetryDelay(attempt, this.policy, error.retryAfterMs);
+        console.log(`Retrying ${this.name} call in ${delayMs}ms after ${error.code} (retry ${attempt + 1}/${this.policy.maxRetries})`);
+        options.onRetry?.({ attempt: attempt + 1, delayMs, error });
+        await new Promise((resolve) => setTimeout(resolve, delayMs));
+      }
+    }
+  }
+}
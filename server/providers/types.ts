@@ -0,0 +1,47 @@
+import type { TranscriptSegment } from "@shared/schema";
+
+export interface TranscriptionResult {
+  text: string;
+  duration?: number;
+  segments: TranscriptSegment[];
+  language?: string; // ISO 639-1 code the audio was transcribed as
+}
+
+export interface TranscribeOptions {
+  // Name of the file as uploaded, used to tailor error messages to its format
+  originalFilename?: string;
+  // ISO 639-1 code of the spoken language, or "auto" to let the provider detect it
+  language?: string;
+  // Text that precedes this audio, e.g. the end of the previous chunk, to keep the transcript consistent
+  prompt?: string;
+  // Called before each automatic retry of a temporary failure
+  onRetry?: (retry: ProviderRetry) => void;
+}
+
+export interface ProviderRetry {
+  attempt: number; // 1 for the first retry
+  delayMs: number;
+  error: Error;
+}
+
+// Files a provider takes as they are; anything else is normalized before it is sent
+export interface AcceptedInput {
+  extensions: string[]; // lower case with the dot, as the format is inferred from the file name
+  codecs: string[]; // audio codecs as named by FFprobe
+  maxFileSizeBytes: number;
+}
+
+/**
+ * A speech-to-text backend. Implementations throw errors whose messages are
+ * ready to be shown to the user.
+ */
+export interface TranscriptionProvider {
+  readonly name: string;
+  // Upper bound on simultaneous requests the backend handles well; unlimited when unset
+  readonly maxConcurrency?: number;
+  // Leave unset when the backend decodes anything FFmpeg can read
+  readonly acceptedInput?: AcceptedInput;
+  transcribe(audioFilePath: string, options?: TranscribeOptions): Promise<TranscriptionResult>;
+  // Translate the speech into English; segment times match the original audio
+  translate(audioFilePath: string, options?: TranscribeOptions): Promise<TranscriptionResult>;
+}
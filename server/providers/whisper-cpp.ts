@@ -0,0 +1,137 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { execFile } from "child_process";
+import { promisify } from "util";
+import type { TranscriptionTask } from "@shared/schema";
+import { TranscriptionError } from "./errors";
+import type { TranscribeOptions, TranscriptionProvider, TranscriptionResult } from "./types";
+
+const execFileAsync = promisify(execFile);
+
+// whisper.cpp prints progress for every decoded window; leave room for long recordings
+const MAX_OUTPUT_BUFFER_BYTES = 64 * 1024 * 1024;
+
+export interface WhisperCppConfig {
+  binaryPath: string; // e.g. whisper-cli from a whisper.cpp build
+  modelPath: string; // ggml model file, e.g. ggml-medium.bin
+  threads?: number;
+}
+
+// Subset of the JSON written by whisper.cpp's -oj flag
+interface WhisperCppOutput {
+  result?: { language?: string };
+  transcription: {
+    offsets: { from: number; to: number }; // milliseconds
+    text: string;
+  }[];
+}
+
+/**
+ * Runs transcription locally with a whisper.cpp binary, so audio never leaves the server.
+ * whisper.cpp only reads 16 kHz mono WAV, so inputs are converted with FFmpeg first.
+ */
+export class WhisperCppProvider implements TranscriptionProvider {
+  readonly name = "whisper-cpp";
+  // Each run already uses every configured thread, so parallel runs only compete for the CPU
+  readonly maxConcurrency = 1;
+
+  constructor(private config: WhisperCppConfig) {}
+
+  async transcribe(audioFilePath: string, options: TranscribeOptions = {}): Promise<TranscriptionResult> {
+    return this.runWhisper(audioFilePath, options, "transcribe");
+  }
+
+  async translate(audioFilePath: string, options: TranscribeOptions = {}): Promise<TranscriptionResult> {
+    return this.runWhisper(audioFilePath, options, "translate");
+  }
+
+  private async runWhisper(
+    audioFilePath: string,
+    options: TranscribeOptions,
+    task: TranscriptionTask
+  ): Promise<TranscriptionResult> {
+    if (!fs.existsSync(audioFilePath)) {
+      throw new Error("Arquivo de áudio não encontrado.");
+    }
+    if (!fs.existsSync(this.config.modelPath)) {
+      throw new TranscriptionError("model_not_found", "Modelo do whisper.cpp não encontrado. Verifique a variável WHISPER_CPP_MODEL.");
+    }
+
+    const workDir = await fs.promises.mkdtemp(path.join(os.tmpdir(), "whisper-cpp-"));
+    const wavPath = path.join(workDir, "input.wav");
+    const outputBase = path.join(workDir, "output");
+
+    try {
+      await execFileAsync("ffmpeg", [
+        "-y", "-i", audioFilePath,
+        "-ar", "16000", "-ac", "1", "-c:a", "pcm_s16le",
+        wavPath,
+      ]);
+
+      const args = [
+        "-m", this.config.modelPath,
+        "-f", wavPath,
+        "-l", options.language || "auto", // detect the spoken language unless one was chosen
+        "-oj",
+        "-of", outputBase,
+      ];
+      if (task === "translate") {
+        args.push("-tr"); // whisper.cpp only translates into English
+      }
+      if (options.prompt) {
+        args.push("--prompt", options.prompt);
+      }
+      if (this.config.threads) {
+        args.push("-t", String(this.config.threads));
+      }
+
+      console.log(`Running whisper.cpp: ${this.config.binaryPath} ${args.join(" ")}`);
+      await execFileAsync(this.config.binaryPath, args, { maxBuffer: MAX_OUTPUT_BUFFER_BYTES });
+
+      const output: WhisperCppOutput = JSON.parse(
+        await fs.promises.readFile(`${outputBase}.json`, "utf-8")
+      );
+
+      const segments = output.transcription
+        .map((entry) => ({
+          start: entry.offsets.from / 1000,
+          end: entry.offsets.to / 1000,
+          text: entry.text.trim(),
+        }))
+        .filter((segment) => segment.text.length > 0);
+
+      const text = segments.map((segment) => segment.text).join(" ").trim();
+      if (text.length === 0) {
+        throw new TranscriptionError("no_speech", "Não foi possível extrair texto do arquivo de áudio. Verifique se o arquivo contém fala audível.");
+      }
+
+      return {
+        text,
+        duration: segments.length > 0 ? segments[segments.length - 1].end : undefined,
+        language: task === "translate" ? "en" : output.result?.language,
+        segments,
+      };
+
+    } catch (error: any) {
+      console.error("whisper.cpp transcription error:", error);
+
+      if (error instanceof TranscriptionError) {
+        throw error;
+      }
+      if (error.code === "ENOENT") {
+        throw new TranscriptionError("binary_not_found", "Binário de transcrição local não encontrado. Verifique a variável WHISPER_CPP_BINARY e a instalação do FFmpeg.");
+      }
+      if (error instanceof SyntaxError) {
+        throw new TranscriptionError("invalid_output", "Resposta inválida do whisper.cpp. Verifique a versão do binário instalado.");
+      }
+      if (error instanceof Error && !("code" in error)) {
+        throw error;
+      }
+
+      throw new TranscriptionError("unknown", "Erro ao processar o arquivo de áudio. Verifique se o arquivo não está corrompido e tente novamente.");
+    } finally {
+      await fs.promises.rm(workDir, { recursive: true, force: true });
+    }
+  }
+}
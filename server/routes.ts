@@ -3,234 +3,634 @@ import { createServer, type Server } from "http";
 import multer from "multer";
 import { z } from "zod";
 import { storage } from "./storage";
-import { uploadAudioSchema, insertTranscriptionSchema } from "@shared/schema";
-import { transcribeAudio } from "./openai";
+import {
+  uploadAudioSchema,
+  insertTranscriptionSchema,
+  listTranscriptionsQuerySchema,
+  renameSpeakersSchema,
+  subtitleExportQuerySchema,
+  transcribeRequestSchema,
+  type Transcription,
+  type TranscriptionJob,
+  type ServerConfig,
+  type TranscriptionListResponse,
+  type TranscriptionResponse,
+  type TranscriptionSummary,
+  type TranscriptionSegment,
+  type TranscriptSegment,
+  type TranscribeRequest,
+  type ChunkResult,
+  type InsertTranscriptionChunk,
+  type VoiceActivity,
+  type Diarization,
+  MAX_VIDEO_UPLOAD_BYTES,
+} from "@shared/schema";
+import { transcriptionProvider, type ProviderRetry } from "./providers";
+import {
+  isRetryableChunk,
+  processAudioChunks,
+  removeRetainedChunkAudio,
+  retryFailedChunks,
+  type ChunkedTranscription,
+} from "./chunks";
+import { jobs, isJobFinished } from "./jobs";
+import {
+  claimUpload,
+  findUpload,
+  getMaxUploadSize,
+  hasAllowedExtension,
+  isUploadComplete,
+  tusServer,
+  FILE_TOO_LARGE_MESSAGE,
+  RESUMABLE_UPLOAD_PATH,
+  UNSUPPORTED_FORMAT_MESSAGE,
+  UPLOAD_DIRECTORY,
+  type UploadedAudioFile,
+} from "./uploads";
+import { buildSubtitles } from "./subtitles";
+import {
+  getAudioDuration,
+  splitAudioIntoChunks,
+  type StageProgressCallback,
+} from "./audio";
+import { preprocessAudio } from "./preprocessing";
+import { mapSegmentsToOriginal, mapSegmentsToTrimmed, skipSilences, toOriginalTime } from "./vad";
+import { assignSpeakers, diarizer, listSpeakers, renumberSpeakers } from "./diarization";
+import { attachLiveTranscription, type LiveSessionResult } from "./live";
+import { getPlaybackUrl, removeOrphanedAudio, removeRetainedAudio, retainAudio } from "./playback";
 import path from "path";
 import fs from "fs";
-import { exec } from "child_process";
-import { promisify } from "util";
-
-const execAsync = promisify(exec);
 
 // Configuration for audio chunking
 const MAX_CHUNK_SIZE_MB = 24; // OpenAI limit is 25MB, using 24MB for safety
 const CHUNK_DURATION_SECONDS = 600; // 10 minutes per chunk
+const CHUNK_BOUNDARY_TOLERANCE_SECONDS = 30; // how far a cut may move to land on a pause
+// Seconds each chunk repeats from the end of the previous one so words at the
+// cut are heard in full; 0 (the default) disables overlapping
+const CHUNK_OVERLAP_SECONDS = Math.max(0, parseFloat(process.env.CHUNK_OVERLAP_SECONDS || '0') || 0);
+
+// Interval between keep-alive comments on open progress streams
+const SSE_HEARTBEAT_INTERVAL_MS = 15000;
+
+// Share of the overall progress bar (in %) covered by each pipeline stage
+const STAGE_PROGRESS = {
+  received: [0, 5],
+  converting: [5, 12],
+  detecting_speech: [12, 18],
+  chunking: [18, 30],
+  transcribing: [30, 90],
+  diarizing: [90, 95],
+  saving: [95, 100],
+} as const;
+
+// Configure multer for file uploads
+const upload = multer({
+  storage: multer.diskStorage({
+    destination: UPLOAD_DIRECTORY + '/',
+    filename: (req, file, cb) => {
+      // Preserve file extension for easier processing
+      const uniqueSuffix = Date.now() + '-' + Math.round(Math.random() * 1E9);
+      const ext = path.extname(file.originalname);
+      cb(null, file.fieldname + '-' + uniqueSuffix + ext);
+    }
+  }),
+  limits: {
+    fileSize: MAX_VIDEO_UPLOAD_BYTES, // audio files are held to their own limit once received
+  },
+  fileFilter: (req, file, cb) => {
+    if (hasAllowedExtension(file.originalname)) {
+      cb(null, true);
+    } else {
+      cb(new Error(UNSUPPORTED_FORMAT_MESSAGE));
+    }
+  },
+});
+
+const DIARIZATION_UNAVAILABLE_MESSAGE = "A identificação de falantes não está disponível neste servidor.";
+
+// Length of the transcript excerpt shown in history listings
+const SUMMARY_PREVIEW_LENGTH = 160;
+
+function toTranscriptionResponse(
+  transcription: Transcription,
+  extras: { totalChunks?: number; segments?: TranscriptSegment[]; chunks?: InsertTranscriptionChunk[] } = {}
+): TranscriptionResponse {
+  return {
+    id: transcription.id,
+    filename: transcription.filename,
+    transcriptionText: transcription.transcriptionText,
+    duration: transcription.duration ?? undefined,
+    wordCount: transcription.wordCount,
+    confidence: transcription.confidence ?? undefined,
+    processingTime: transcription.processingTime,
+    totalChunks: extras.totalChunks,
+    language: transcription.language ?? undefined,
+    translatedText: transcription.translatedText ?? undefined,
+    translationLanguage: transcription.translationLanguage ?? undefined,
+    segments: extras.segments,
+    status: transcription.status === 'partial' ? 'partial' : 'complete',
+    chunks: extras.chunks && extras.chunks.length > 0
+      ? extras.chunks.map((chunk) => toChunkResult(chunk, transcription.voiceActivity))
+      : undefined,
+    preprocessing: transcription.preprocessing ?? undefined,
+    voiceActivity: transcription.voiceActivity
+      ? {
+          originalDuration: transcription.voiceActivity.originalDuration,
+          skippedSeconds: transcription.voiceActivity.skippedSeconds,
+        }
+      : undefined,
+    speakers: transcription.diarization ? listSpeakers(transcription.diarization) : undefined,
+    audioUrl: getPlaybackUrl(transcription),
+    createdAt: transcription.createdAt.toISOString(),
+  };
+}
+
+// Chunk times are kept on the timeline of the audio that was split, which
+// lacks the skipped silences; users see them on the original recording
+function toChunkResult(chunk: InsertTranscriptionChunk, voiceActivity?: VoiceActivity | null): ChunkResult {
+  return {
+    index: chunk.position,
+    start: voiceActivity ? toOriginalTime(voiceActivity.regions, chunk.start) : chunk.start,
+    end: voiceActivity ? toOriginalTime(voiceActivity.regions, chunk.end, true) : chunk.end,
+    status: chunk.status === 'done' ? 'done' : 'failed',
+    errorCode: chunk.errorCode ?? undefined,
+    error: chunk.errorMessage ?? undefined,
+  };
+}
+
+function countWords(text: string): number {
+  return text.trim().split(/\s+/).filter(word => word.length > 0).length;
+}
+
+function toTranscriptSegment(segment: TranscriptionSegment): TranscriptSegment {
+  return {
+    start: segment.start,
+    end: segment.end,
+    text: segment.text,
+    avgLogprob: segment.avgLogprob ?? undefined,
+    speaker: segment.speaker ?? undefined,
+  };
+}
+
+function toTranscriptionSummary(transcription: Transcription): TranscriptionSummary {
+  const text = transcription.transcriptionText.trim();
+  return {
+    id: transcription.id,
+    filename: transcription.filename,
+    duration: transcription.duration ?? undefined,
+    wordCount: transcription.wordCount,
+    preview: text.length > SUMMARY_PREVIEW_LENGTH ? `${text.slice(0, SUMMARY_PREVIEW_LENGTH)}…` : text,
+    status: transcription.status === 'partial' ? 'partial' : 'complete',
+    createdAt: transcription.createdAt.toISOString(),
+  };
+}
+
+// Build a progress callback that records a stage on the job, scaled into the
+// part of the overall progress bar reserved for that stage
+function stageReporter(jobId: string, stage: keyof typeof STAGE_PROGRESS): StageProgressCallback {
+  const [start, end] = STAGE_PROGRESS[stage];
+  return (fraction, message) => {
+    jobs.updateJob(jobId, {
+      state: stage === 'received' ? 'queued' : stage,
+      progress: Math.round(start + (end - start) * Math.min(Math.max(fraction, 0), 1)),
+      message,
+    });
+  };
+}
+
+// Count automatic provider retries on the job and tell the user why it is waiting
+function retryRecorder(jobId: string): (retry: ProviderRetry) => void {
+  return (retry) => {
+    jobs.updateJob(jobId, {
+      retries: (jobs.getJob(jobId)?.retries ?? 0) + 1,
+      message: `Falha temporária no serviço de transcrição. Nova tentativa em ${Math.ceil(retry.delayMs / 1000)}s`,
+    });
+  };
+}
+
+// Run the conversion, chunking and transcription pipeline for an uploaded file,
+// recording each stage on the job so the client can follow along
+async function processTranscriptionJob(
+  jobId: string,
+  file: UploadedAudioFile,
+  request: TranscribeRequest
+): Promise<void> {
+  const startTime = Date.now();
+  stageReporter(jobId, 'received')(1, 'Arquivo recebido');
+
+  // Replaced by the converted file when preprocessing applies
+  let audioFilePath = file.path;
+  // Full-length audio on the timeline of the saved segments, kept for playback
+  let playbackPath = file.path;
+  // Failed chunks keep their audio for a later retry, until the transcription is saved
+  let chunkRecords: ChunkedTranscription['chunks'] = [];
 
-// Convert OPUS files to MP3 using FFmpeg
-async function convertOpusToMp3(inputPath: string): Promise<string> {
-  // Replace .opus extension with .mp3
-  const outputPath = inputPath.replace(/\.opus$/i, '.mp3');
-  
   try {
-    console.log(`Converting OPUS file: ${inputPath} -> ${outputPath}`);
+    console.log(`Processing file: ${file.originalname}, path: ${file.path}, size: ${file.size} bytes, mimetype: ${file.mimetype}`);
+
+    const preprocessed = await preprocessAudio(file, request, transcriptionProvider, stageReporter(jobId, 'converting'));
+    audioFilePath = preprocessed.path;
+    playbackPath = preprocessed.path;
+    let audioFileName = preprocessed.filename;
+
+    // Long pauses are left out before chunking; segment times are mapped back once transcribed
+    let voiceActivity: VoiceActivity | undefined;
+    if (request.skipSilence) {
+      const reportDetecting = stageReporter(jobId, 'detecting_speech');
+      try {
+        const trimmed = await skipSilences(audioFilePath, reportDetecting);
+        if (trimmed) {
+          audioFilePath = trimmed.path;
+          audioFileName = audioFileName.replace(/\.[^.]+$/, '') + '.mp3';
+          voiceActivity = trimmed.voiceActivity;
+        }
+      } catch (error) {
+        // Transcribing the silences too is slower, but still gives a full transcript
+        console.error('Voice activity detection failed, transcribing the whole audio:', error);
+        reportDetecting(1, 'Não foi possível detectar os silêncios; o áudio completo será transcrito');
+      }
+    }
     
-    // Check if input file exists
-    if (!fs.existsSync(inputPath)) {
-      throw new Error(`Input file does not exist: ${inputPath}`);
+    // Verify file exists and is readable
+    if (!fs.existsSync(audioFilePath)) {
+      throw new Error(`Processed audio file not found: ${audioFilePath}`);
     }
+
+    // Check if file is too large or too long and needs chunking; the processed
+    // file is what gets sent, so measure that rather than the upload
+    const fileSizeMB = fs.statSync(audioFilePath).size / (1024 * 1024);
+    const shouldSplitBySize = fileSizeMB > MAX_CHUNK_SIZE_MB;
     
-    // Use FFmpeg to convert OPUS to MP3 with error handling
-    // Escape file paths properly to handle special characters
-    const escapedInputPath = inputPath.replace(/'/g, "'\\''");
-    const escapedOutputPath = outputPath.replace(/'/g, "'\\''");
-    const command = `ffmpeg -y -i '${escapedInputPath}' -codec:a libmp3lame -b:a 128k '${escapedOutputPath}'`;
-    console.log(`Running FFmpeg command: ${command}`);
+    let shouldSplitByDuration = false;
+    let audioDuration = 0;
     
-    const { stdout, stderr } = await execAsync(command);
-    console.log('FFmpeg stdout:', stdout);
-    if (stderr) {
-      console.log('FFmpeg stderr:', stderr);
+    try {
+      audioDuration = await getAudioDuration(audioFilePath);
+      shouldSplitByDuration = audioDuration > CHUNK_DURATION_SECONDS;
+      console.log(`Audio duration: ${audioDuration}s, size: ${fileSizeMB.toFixed(2)}MB`);
+    } catch (error) {
+      console.log('Could not determine audio duration, proceeding without duration-based splitting');
     }
-    
-    // Check if output file was created
-    if (!fs.existsSync(outputPath)) {
-      throw new Error('Conversion failed: output file was not created');
+
+    let transcriptionResult;
+    let translatedText: string | undefined;
+    let totalChunks = 1;
+
+    if (shouldSplitBySize || shouldSplitByDuration) {
+      console.log(`Large file detected. Splitting into chunks...`);
+      const reportChunking = stageReporter(jobId, 'chunking');
+      reportChunking(0, 'Dividindo áudio em segmentos');
+      
+      // Split audio into chunks and transcribe them in parallel
+      const chunks = await splitAudioIntoChunks(
+        audioFilePath,
+        {
+          chunkDurationSeconds: CHUNK_DURATION_SECONDS,
+          toleranceSeconds: CHUNK_BOUNDARY_TOLERANCE_SECONDS,
+          overlapSeconds: CHUNK_OVERLAP_SECONDS,
+        },
+        reportChunking
+      );
+      const reportTranscribing = stageReporter(jobId, 'transcribing');
+      reportTranscribing(0, `Transcrevendo ${chunks.length} segmentos`);
+      const chunkResult = await processAudioChunks(
+        chunks,
+        file.originalname,
+        { ...request, onRetry: retryRecorder(jobId) },
+        reportTranscribing,
+        (chunkStatuses) => jobs.updateJob(jobId, { chunks: chunkStatuses })
+      );
+      
+      transcriptionResult = {
+        text: chunkResult.text,
+        duration: chunkResult.duration,
+        segments: chunkResult.segments,
+        language: chunkResult.language
+      };
+      translatedText = chunkResult.translatedText;
+      totalChunks = chunks.length;
+      chunkRecords = chunkResult.chunks;
+      
+      console.log(`Completed processing ${totalChunks} chunks. Total duration: ${chunkResult.duration}s`);
+    } else {
+      // Process single file normally
+      console.log('Processing single file...');
+      const reportTranscribing = stageReporter(jobId, 'transcribing');
+      reportTranscribing(0, 'Transcrevendo áudio');
+      transcriptionResult = await transcriptionProvider.transcribe(audioFilePath, {
+        originalFilename: audioFileName,
+        language: request.language,
+        onRetry: retryRecorder(jobId),
+      });
+      if (request.task === 'translate') {
+        reportTranscribing(0.5, 'Traduzindo áudio');
+        const translation = await transcriptionProvider.translate(audioFilePath, {
+          originalFilename: audioFileName,
+          language: request.language,
+          onRetry: retryRecorder(jobId),
+        });
+        translatedText = translation.text;
+      }
+      reportTranscribing(1, 'Áudio transcrito');
     }
-    
-    // Check output file size
-    const outputStats = fs.statSync(outputPath);
-    if (outputStats.size === 0) {
-      throw new Error('Conversion failed: output file is empty');
+
+    // Speaker turns are found on the same audio the provider heard, so they line up with its segments
+    let diarization: Diarization | undefined;
+    if (request.diarize && diarizer) {
+      const reportDiarizing = stageReporter(jobId, 'diarizing');
+      reportDiarizing(0, 'Identificando falantes');
+      try {
+        const turns = renumberSpeakers(await diarizer.diarize(audioFilePath, { duration: transcriptionResult.duration }));
+        transcriptionResult = {
+          ...transcriptionResult,
+          segments: assignSpeakers(transcriptionResult.segments, turns),
+        };
+        diarization = { backend: diarizer.name, turns, names: {} };
+        reportDiarizing(1, `${listSpeakers(diarization).length} falantes identificados`);
+      } catch (error) {
+        // The transcript is still worth saving without speaker labels
+        console.error('Diarization failed, saving the transcript without speakers:', error);
+        reportDiarizing(1, 'Não foi possível identificar os falantes');
+      }
+    }
+
+    if (voiceActivity) {
+      transcriptionResult = {
+        ...transcriptionResult,
+        duration: voiceActivity.originalDuration,
+        segments: mapSegmentsToOriginal(voiceActivity.regions, transcriptionResult.segments),
+      };
+      if (diarization) {
+        diarization = { ...diarization, turns: mapSegmentsToOriginal(voiceActivity.regions, diarization.turns) };
+      }
     }
     
-    console.log(`Conversion successful. Output file size: ${outputStats.size} bytes`);
-    
-    // Remove original OPUS file only if conversion was successful
-    fs.unlinkSync(inputPath);
-    
-    return outputPath;
-  } catch (error) {
-    console.error('FFmpeg conversion error:', error);
-    
-    // Clean up files on error
-    if (fs.existsSync(outputPath)) {
-      fs.unlinkSync(outputPath);
+    const processingTime = (Date.now() - startTime) / 1000; // Convert to seconds
+    const wordCount = countWords(transcriptionResult.text);
+    const isPartial = chunkRecords.some((chunk) => chunk.status === 'failed');
+
+    // Save transcription to storage
+    stageReporter(jobId, 'saving')(0, 'Salvando transcrição');
+
+    // A copy without the silences was only made for the provider
+    if (audioFilePath !== playbackPath && fs.existsSync(audioFilePath)) {
+      fs.unlinkSync(audioFilePath);
+    }
+    const audioPath = await retainAudio(playbackPath);
+    // If saving fails, the error handler removes the retained copy
+    playbackPath = audioPath ?? playbackPath;
+
+    const transcriptionData = {
+      filename: file.originalname,
+      originalSize: file.size,
+      mimeType: file.mimetype,
+      duration: transcriptionResult.duration || 0,
+      transcriptionText: transcriptionResult.text,
+      wordCount,
+      confidence: 0.94, // Whisper doesn't provide confidence, using estimated value
+      processingTime,
+      // Prefer what the provider reports; fall back to the requested language
+      language: transcriptionResult.language ?? (request.language !== 'auto' ? request.language : null),
+      translatedText: translatedText ?? null,
+      // Whisper-based providers only translate into English
+      translationLanguage: translatedText !== undefined ? 'en' : null,
+      status: isPartial ? 'partial' : 'complete',
+      preprocessing: preprocessed.preprocessing,
+      voiceActivity: voiceActivity ?? null,
+      diarization: diarization ?? null,
+      audioPath,
+    };
+
+    const segmentData = transcriptionResult.segments.map((segment, position) => ({
+      position,
+      ...segment,
+    }));
+
+    const savedTranscription = await storage.createTranscription(transcriptionData, segmentData, chunkRecords);
+
+    jobs.updateJob(jobId, {
+      state: 'done',
+      progress: 100,
+      message: isPartial ? 'Transcrição concluída com segmentos faltando' : 'Transcrição concluída',
+      result: toTranscriptionResponse(savedTranscription, {
+        totalChunks,
+        segments: transcriptionResult.segments,
+        chunks: chunkRecords,
+      }),
+    });
+
+  } catch (transcriptionError) {
+    // Clean up any files that might exist (original or converted)
+    if (fs.existsSync(file.path)) {
+      fs.unlinkSync(file.path);
+    }
+    if (audioFilePath !== file.path && fs.existsSync(audioFilePath)) {
+      fs.unlinkSync(audioFilePath);
     }
-    if (fs.existsSync(inputPath)) {
-      fs.unlinkSync(inputPath);
+    if (playbackPath !== file.path && playbackPath !== audioFilePath && fs.existsSync(playbackPath)) {
+      fs.unlinkSync(playbackPath);
     }
+    removeRetainedChunkAudio(chunkRecords);
+    console.error("Transcription error:", transcriptionError);
     
-    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-    throw new Error(`Erro ao converter arquivo OPUS: ${errorMessage}`);
+    jobs.updateJob(jobId, {
+      state: 'failed',
+      error: (transcriptionError as Error).message || "Erro ao processar o áudio. Verifique se o arquivo não está corrompido e tente novamente.",
+    });
   }
 }
 
-// Get audio duration in seconds using FFprobe
-async function getAudioDuration(filePath: string): Promise<number> {
+// Transcriptions with a retry under way, so the same chunks are not retried twice at once
+const retryingTranscriptions = new Set<string>();
+
+// Re-transcribe the failed chunks of a saved transcription and store the merged
+// result, recording progress on the job like a regular upload
+async function processRetryJob(jobId: string, transcription: Transcription): Promise<void> {
+  const startTime = Date.now();
+  retryingTranscriptions.add(transcription.id);
+
   try {
-    const escapedPath = filePath.replace(/'/g, "'\\''");
-    const command = `ffprobe -v quiet -show_entries format=duration -of csv=p=0 '${escapedPath}'`;
-    const { stdout } = await execAsync(command);
-    return parseFloat(stdout.trim());
+    const [chunks, segments] = await Promise.all([
+      storage.getTranscriptionChunks(transcription.id),
+      storage.getTranscriptionSegments(transcription.id),
+    ]);
+
+    // Chunks were cut from the audio without the skipped silences, so merging
+    // happens on that timeline and the result is mapped back afterwards
+    const regions = transcription.voiceActivity?.regions;
+    const storedSegments = segments.map(toTranscriptSegment);
+
+    const reportTranscribing = stageReporter(jobId, 'transcribing');
+    reportTranscribing(0, 'Reprocessando segmentos com falha');
+    const retried = await retryFailedChunks(
+      chunks,
+      regions ? mapSegmentsToTrimmed(regions, storedSegments) : storedSegments,
+      transcription.filename,
+      {
+        // Reuse the language the rest of the recording was transcribed in, or
+        // detect it again when the first pass stored none
+        language: transcription.language ?? 'auto',
+        task: transcription.translationLanguage ? 'translate' : 'transcribe',
+        onRetry: retryRecorder(jobId),
+      },
+      reportTranscribing,
+      (chunkStatuses) => jobs.updateJob(jobId, { chunks: chunkStatuses })
+    );
+    const mappedSegments = regions ? mapSegmentsToOriginal(regions, retried.segments) : retried.segments;
+    // New segments take their speaker from the turns found for the whole recording
+    const retriedSegments = transcription.diarization
+      ? assignSpeakers(mappedSegments, transcription.diarization.turns)
+      : mappedSegments;
+
+    stageReporter(jobId, 'saving')(0, 'Salvando transcrição');
+    const isPartial = retried.chunks.some((chunk) => chunk.status === 'failed');
+    const updated = await storage.updateTranscription(
+      transcription.id,
+      {
+        transcriptionText: retried.text,
+        wordCount: countWords(retried.text),
+        translatedText: retried.translatedText ?? transcription.translatedText,
+        processingTime: transcription.processingTime + (Date.now() - startTime) / 1000,
+        status: isPartial ? 'partial' : 'complete',
+      },
+      retriedSegments.map((segment, position) => ({ position, ...segment })),
+      retried.chunks
+    );
+    if (!updated) {
+      throw new Error('Transcrição não encontrada. Ela pode ter sido excluída durante o reprocessamento.');
+    }
+
+    jobs.updateJob(jobId, {
+      state: 'done',
+      progress: 100,
+      message: isPartial ? 'Alguns segmentos falharam novamente' : 'Todos os segmentos foram transcritos',
+      result: toTranscriptionResponse(updated, {
+        totalChunks: retried.chunks.length,
+        segments: retriedSegments,
+        chunks: retried.chunks,
+      }),
+    });
   } catch (error) {
-    console.error('Error getting audio duration:', error);
-    throw new Error('Falha ao obter duração do áudio');
+    console.error("Retry error:", error);
+    jobs.updateJob(jobId, {
+      state: 'failed',
+      error: (error as Error).message || "Erro ao reprocessar os segmentos. Tente novamente.",
+    });
+  } finally {
+    retryingTranscriptions.delete(transcription.id);
   }
 }
 
-// Split audio file into chunks
-async function splitAudioIntoChunks(inputPath: string, chunkDurationSeconds: number): Promise<string[]> {
-  const chunks: string[] = [];
-  const timestamp = Date.now();
-  const outputDir = path.dirname(inputPath);
-  
+// Store a finished live session like any other transcription; each finalized
+// window is kept as a chunk, so windows that failed can be retried later
+async function saveLiveSession(session: LiveSessionResult): Promise<TranscriptionResponse> {
+  const text = session.chunks
+    .map((chunk) => chunk.text)
+    .filter((chunkText): chunkText is string => !!chunkText)
+    .join(' ');
+  const isPartial = session.chunks.some((chunk) => chunk.status === 'failed');
+
+  const savedTranscription = await storage.createTranscription(
+    {
+      filename: session.filename,
+      originalSize: session.sizeBytes,
+      mimeType: 'audio/wav',
+      duration: session.duration,
+      transcriptionText: text,
+      wordCount: countWords(text),
+      confidence: 0.94, // Whisper doesn't provide confidence, using estimated value
+      processingTime: session.processingTime,
+      language: session.detectedLanguage ?? (session.language !== 'auto' ? session.language : null),
+      translatedText: null,
+      translationLanguage: null,
+      status: isPartial ? 'partial' : 'complete',
+      preprocessing: null,
+      voiceActivity: null,
+      diarization: null,
+      audioPath: session.audioPath,
+    },
+    session.segments.map((segment, position) => ({ position, ...segment })),
+    session.chunks
+  );
+
+  return toTranscriptionResponse(savedTranscription, {
+    totalChunks: session.chunks.length,
+    segments: session.segments,
+    chunks: session.chunks,
+  });
+}
+
+// Create a job for an uploaded file and start processing it in the background;
+// the client follows it through /api/jobs/:id
+function startTranscriptionJob(file: UploadedAudioFile, request: TranscribeRequest): TranscriptionJob {
+  const job = jobs.createJob(file.originalname);
+
+  processTranscriptionJob(job.id, file, request).catch((error) => {
+    console.error(`Unexpected error in job ${job.id}:`, error);
+    jobs.updateJob(job.id, {
+      state: 'failed',
+      error: "Erro interno do servidor. Tente novamente mais tarde.",
+    });
+  });
+
+  return job;
+}
+
+export async function registerRoutes(app: Express): Promise<Server> {
+  // Nothing is being transcribed yet, so any audio without a transcription is left over from
+  // before a restart (all of it with in-memory storage) and would otherwise stay on disk forever
   try {
-    const totalDuration = await getAudioDuration(inputPath);
-    const numChunks = Math.ceil(totalDuration / chunkDurationSeconds);
-    
-    console.log(`Splitting audio into ${numChunks} chunks of ${chunkDurationSeconds}s each`);
-    
-    for (let i = 0; i < numChunks; i++) {
-      const startTime = i * chunkDurationSeconds;
-      // Generate clean chunk filename with timestamp to avoid conflicts
-      const chunkPath = path.join(outputDir, `chunk_${timestamp}_${i + 1}.mp3`);
-      
-      const escapedInputPath = inputPath.replace(/'/g, "'\\''");
-      const escapedChunkPath = chunkPath.replace(/'/g, "'\\''");
-      
-      // Convert to MP3 during chunking to ensure compatibility
-      const command = `ffmpeg -y -i '${escapedInputPath}' -ss ${startTime} -t ${chunkDurationSeconds} -codec:a libmp3lame -b:a 128k '${escapedChunkPath}'`;
-      
-      console.log(`Creating chunk ${i + 1}/${numChunks}: ${chunkPath}`);
-      const { stdout, stderr } = await execAsync(command);
-      
-      if (stderr && !stderr.includes('size=')) {
-        console.log(`FFmpeg stderr for chunk ${i + 1}:`, stderr);
-      }
-      
-      if (fs.existsSync(chunkPath)) {
-        const stats = fs.statSync(chunkPath);
-        if (stats.size > 1000) { // Minimum 1KB for valid audio
-          chunks.push(chunkPath);
-          console.log(`Chunk ${i + 1} created successfully: ${chunkPath} (${stats.size} bytes)`);
-        } else {
-          console.log(`Chunk ${i + 1} is too small (${stats.size} bytes), skipping`);
-          fs.unlinkSync(chunkPath);
-        }
-      } else {
-        console.log(`Warning: Chunk ${i + 1} was not created: ${chunkPath}`);
-      }
+    const removed = await removeOrphanedAudio(await storage.listAudioPaths());
+    if (removed > 0) {
+      console.log(`Removed ${removed} audio files no transcription points to`);
     }
-    
-    if (chunks.length === 0) {
-      throw new Error('No valid chunks were created');
-    }
-    
-    return chunks;
   } catch (error) {
-    // Clean up any created chunks on error
-    chunks.forEach(chunkPath => {
-      if (fs.existsSync(chunkPath)) {
-        fs.unlinkSync(chunkPath);
+    console.error("Could not clean up orphaned audio:", error);
+  }
+
+  // Resumable uploads (tus protocol): creation, offset checks, chunk PATCHes and termination
+  app.all([RESUMABLE_UPLOAD_PATH, `${RESUMABLE_UPLOAD_PATH}/:uploadId`], (req, res) => {
+    tusServer.handle(req, res).catch((error) => {
+      console.error("Resumable upload error:", error);
+      if (!res.headersSent) {
+        res.status(500).json({ error: "Erro no upload do arquivo. Tente novamente." });
       }
     });
-    
-    console.error('Error splitting audio:', error);
-    throw new Error('Falha ao dividir arquivo de áudio');
-  }
-}
+  });
 
-// Process audio chunks sequentially and combine transcriptions
-async function processAudioChunks(chunks: string[], originalFileName: string): Promise<{
-  text: string;
-  duration: number;
-  totalChunks: number;
-}> {
-  let combinedText = '';
-  let totalDuration = 0;
-  
-  console.log(`Processing ${chunks.length} audio chunks sequentially`);
-  
-  for (let i = 0; i < chunks.length; i++) {
-    const chunkPath = chunks[i];
-    const chunkFileName = `${originalFileName}_chunk_${i + 1}`;
-    
-    console.log(`Processing chunk ${i + 1}/${chunks.length}: ${chunkPath}`);
-    
+  // Queue a finished resumable upload for transcription
+  app.post(`${RESUMABLE_UPLOAD_PATH}/:uploadId/transcribe`, async (req, res) => {
     try {
-      const result = await transcribeAudio(chunkPath, chunkFileName);
-      
-      // Add chunk text with separator if not the first chunk
-      if (combinedText && result.text.trim()) {
-        combinedText += ' ';
+      const requestResult = transcribeRequestSchema.safeParse(req.body ?? {});
+      if (!requestResult.success) {
+        return res.status(400).json({
+          error: "Opções de transcrição inválidas. Verifique o idioma e o modo escolhidos."
+        });
       }
-      combinedText += result.text.trim();
-      totalDuration += result.duration || 0;
-      
-      console.log(`Chunk ${i + 1} completed. Text length: ${result.text.length} chars`);
-      
-    } catch (error) {
-      console.error(`Error processing chunk ${i + 1}:`, error);
-      // Continue with other chunks even if one fails, but provide more detailed error info
-      const errorMsg = error instanceof Error ? error.message : 'Erro desconhecido';
-      combinedText += `[Segmento ${i + 1}: ${errorMsg}] `;
-    } finally {
-      // Clean up chunk file
-      if (fs.existsSync(chunkPath)) {
-        fs.unlinkSync(chunkPath);
+      if (requestResult.data.diarize && !diarizer) {
+        return res.status(400).json({ error: DIARIZATION_UNAVAILABLE_MESSAGE });
       }
-    }
-  }
-  
-  return {
-    text: combinedText,
-    duration: totalDuration,
-    totalChunks: chunks.length
-  };
-}
 
-// Configure multer for file uploads
-const upload = multer({
-  storage: multer.diskStorage({
-    destination: 'uploads/',
-    filename: (req, file, cb) => {
-      // Preserve file extension for easier processing
-      const uniqueSuffix = Date.now() + '-' + Math.round(Math.random() * 1E9);
-      const ext = path.extname(file.originalname);
-      cb(null, file.fieldname + '-' + uniqueSuffix + ext);
-    }
-  }),
-  limits: {
-    fileSize: 104857600, // 100MB - large files handled by chunking
-  },
-  fileFilter: (req, file, cb) => {
-    // Check file extension - more reliable than MIME type for audio files
-    // OpenAI native formats: flac, m4a, mp3, mp4, mpeg, mpga, oga, ogg, wav, webm
-    // Additional formats that will be converted: opus
-    const allowedExtensions = ['.mp3', '.wav', '.m4a', '.mp4', '.flac', '.ogg', '.webm', '.mpga', '.oga', '.opus'];
-    const filename = file.originalname.toLowerCase();
-    const hasValidExtension = allowedExtensions.some(ext => filename.endsWith(ext));
-    
-    if (hasValidExtension) {
-      cb(null, true);
-    } else {
-      cb(new Error('Formato de arquivo não suportado. Use MP3, WAV, M4A, MP4, FLAC, OGG, WEBM ou OPUS.'));
+      const upload = await findUpload(req.params.uploadId);
+      if (!upload) {
+        return res.status(404).json({ error: "Envio não encontrado. Envie o arquivo novamente." });
+      }
+      if (!isUploadComplete(upload)) {
+        return res.status(409).json({ error: "O envio do arquivo ainda não foi concluído." });
+      }
+
+      const file = await claimUpload(upload);
+      res.status(202).json(startTranscriptionJob(file, requestResult.data));
+
+    } catch (error) {
+      console.error("Error starting transcription of upload:", error);
+      res.status(500).json({
+        error: "Erro interno do servidor. Tente novamente mais tarde."
+      });
     }
-  },
-});
+  });
 
-export async function registerRoutes(app: Express): Promise<Server> {
-  // Upload and transcribe audio file
+  // Upload audio file and queue it for transcription
   app.post("/api/transcribe", upload.single('audioFile'), async (req, res) => {
     try {
       if (!req.file) {
@@ -240,13 +640,23 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
 
       const file = req.file;
-      
-      // Validate file data
-      const fileData = {
-        filename: file.originalname,
-        size: file.size,
-        mimeType: file.mimetype,
-      };
+
+      if (file.size > getMaxUploadSize(file.originalname)) {
+        fs.unlinkSync(file.path);
+        return res.status(400).json({ error: FILE_TOO_LARGE_MESSAGE });
+      }
+
+      const requestResult = transcribeRequestSchema.safeParse(req.body);
+      if (!requestResult.success) {
+        fs.unlinkSync(file.path);
+        return res.status(400).json({ 
+          error: "Opções de transcrição inválidas. Verifique o idioma e o modo escolhidos." 
+        });
+      }
+      if (requestResult.data.diarize && !diarizer) {
+        fs.unlinkSync(file.path);
+        return res.status(400).json({ error: DIARIZATION_UNAVAILABLE_MESSAGE });
+      }
 
       // Skip Zod validation for now since we have extension-based validation
       // const validationResult = uploadAudioSchema.safeParse(fileData);
@@ -257,115 +667,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       //   });
       // }
 
-      const startTime = Date.now();
-
-      try {
-        // Check if file needs conversion
-        let audioFilePath = file.path;
-        let audioFileName = file.originalname;
-        
-        console.log(`Processing file: ${file.originalname}, path: ${file.path}, size: ${file.size} bytes, mimetype: ${file.mimetype}`);
-        
-        if (file.originalname.toLowerCase().endsWith('.opus')) {
-          console.log('Converting OPUS file to MP3...');
-          audioFilePath = await convertOpusToMp3(file.path);
-          audioFileName = file.originalname.replace(/\.opus$/i, '.mp3');
-        }
-        
-        // Verify file exists and is readable
-        if (!fs.existsSync(audioFilePath)) {
-          throw new Error(`Processed audio file not found: ${audioFilePath}`);
-        }
-
-        // Check if file is too large or too long and needs chunking
-        const fileSizeMB = file.size / (1024 * 1024);
-        const shouldSplitBySize = fileSizeMB > MAX_CHUNK_SIZE_MB;
-        
-        let shouldSplitByDuration = false;
-        let audioDuration = 0;
-        
-        try {
-          audioDuration = await getAudioDuration(audioFilePath);
-          shouldSplitByDuration = audioDuration > CHUNK_DURATION_SECONDS;
-          console.log(`Audio duration: ${audioDuration}s, size: ${fileSizeMB.toFixed(2)}MB`);
-        } catch (error) {
-          console.log('Could not determine audio duration, proceeding without duration-based splitting');
-        }
-
-        let transcriptionResult;
-        let totalChunks = 1;
-
-        if (shouldSplitBySize || shouldSplitByDuration) {
-          console.log(`Large file detected. Splitting into chunks...`);
-          
-          // Split audio into chunks and process sequentially
-          const chunks = await splitAudioIntoChunks(audioFilePath, CHUNK_DURATION_SECONDS);
-          const chunkResult = await processAudioChunks(chunks, file.originalname);
-          
-          transcriptionResult = {
-            text: chunkResult.text,
-            duration: chunkResult.duration
-          };
-          totalChunks = chunkResult.totalChunks;
-          
-          console.log(`Completed processing ${totalChunks} chunks. Total duration: ${chunkResult.duration}s`);
-        } else {
-          // Process single file normally
-          console.log('Processing single file...');
-          transcriptionResult = await transcribeAudio(audioFilePath, audioFileName);
-        }
-        
-        const processingTime = (Date.now() - startTime) / 1000; // Convert to seconds
-        const wordCount = transcriptionResult.text.trim().split(/\s+/).filter(word => word.length > 0).length;
-
-        // Save transcription to storage
-        const transcriptionData = {
-          filename: file.originalname,
-          originalSize: file.size,
-          mimeType: file.mimetype,
-          duration: transcriptionResult.duration || 0,
-          transcriptionText: transcriptionResult.text,
-          wordCount,
-          confidence: 0.94, // Whisper doesn't provide confidence, using estimated value
-          processingTime,
-        };
-
-        const savedTranscription = await storage.createTranscription(transcriptionData);
-
-        // Clean up processed file (could be original or converted)
-        if (fs.existsSync(audioFilePath)) {
-          fs.unlinkSync(audioFilePath);
-        }
-
-        res.json({
-          id: savedTranscription.id,
-          filename: savedTranscription.filename,
-          transcriptionText: savedTranscription.transcriptionText,
-          duration: savedTranscription.duration,
-          wordCount: savedTranscription.wordCount,
-          confidence: savedTranscription.confidence,
-          processingTime: savedTranscription.processingTime,
-          totalChunks: totalChunks,
-          createdAt: savedTranscription.createdAt.toISOString(),
-        });
-
-      } catch (transcriptionError) {
-        // Clean up any files that might exist (original or converted)
-        if (fs.existsSync(file.path)) {
-          fs.unlinkSync(file.path);
-        }
-        if (file.originalname.toLowerCase().endsWith('.opus')) {
-          const convertedPath = file.path.replace(/\.opus$/i, '.mp3');
-          if (fs.existsSync(convertedPath)) {
-            fs.unlinkSync(convertedPath);
-          }
-        }
-        console.error("Transcription error:", transcriptionError);
-        
-        return res.status(500).json({ 
-          error: (transcriptionError as Error).message || "Erro ao processar o áudio. Verifique se o arquivo não está corrompido e tente novamente." 
-        });
-      }
+      res.status(202).json(startTranscriptionJob(file, requestResult.data));
 
     } catch (error) {
       console.error("Upload error:", error);
@@ -378,7 +680,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       if (error instanceof multer.MulterError) {
         if (error.code === 'LIMIT_FILE_SIZE') {
           return res.status(400).json({ 
-            error: "Arquivo muito grande. O tamanho máximo é 10MB." 
+            error: FILE_TOO_LARGE_MESSAGE 
           });
         }
         return res.status(400).json({ 
@@ -392,6 +694,77 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Get transcription job status (and result once done)
+  app.get("/api/jobs/:id", (req, res) => {
+    const job = jobs.getJob(req.params.id);
+    if (!job) {
+      return res.status(404).json({ error: "Tarefa de transcrição não encontrada." });
+    }
+
+    res.json(job);
+  });
+
+  // Stream transcription job progress as Server-Sent Events until the job finishes
+  app.get("/api/jobs/:id/events", (req, res) => {
+    const job = jobs.getJob(req.params.id);
+    if (!job) {
+      return res.status(404).json({ error: "Tarefa de transcrição não encontrada." });
+    }
+
+    res.writeHead(200, {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      'Connection': 'keep-alive',
+      'X-Accel-Buffering': 'no', // Disable response buffering in nginx-style reverse proxies
+    });
+
+    const sendJob = (currentJob: TranscriptionJob) => {
+      res.write(`data: ${JSON.stringify(currentJob)}\n\n`);
+      if (isJobFinished(currentJob)) {
+        cleanup();
+        res.end();
+      }
+    };
+
+    // Comment lines keep idle connections from being closed by proxies
+    const heartbeat = setInterval(() => {
+      res.write(': heartbeat\n\n');
+    }, SSE_HEARTBEAT_INTERVAL_MS);
+
+    const unsubscribe = jobs.subscribe(job.id, sendJob);
+    const cleanup = () => {
+      clearInterval(heartbeat);
+      unsubscribe();
+    };
+
+    req.on('close', cleanup);
+    sendJob(job);
+  });
+
+  // List past transcriptions with pagination, filename filter and full-text search
+  app.get("/api/transcriptions", async (req, res) => {
+    const queryResult = listTranscriptionsQuerySchema.safeParse(req.query);
+    if (!queryResult.success) {
+      return res.status(400).json({ error: "Parâmetros de busca inválidos." });
+    }
+
+    try {
+      const query = queryResult.data;
+      const { items, total } = await storage.listTranscriptions(query);
+
+      const response: TranscriptionListResponse = {
+        items: items.map(toTranscriptionSummary),
+        total,
+        page: query.page,
+        pageSize: query.pageSize,
+      };
+      res.json(response);
+    } catch (error) {
+      console.error("List transcriptions error:", error);
+      res.status(500).json({ error: "Erro ao buscar transcrições." });
+    }
+  });
+
   // Get transcription by ID
   app.get("/api/transcriptions/:id", async (req, res) => {
     try {
@@ -400,22 +773,193 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ error: "Transcrição não encontrada." });
       }
 
-      res.json({
-        id: transcription.id,
-        filename: transcription.filename,
-        transcriptionText: transcription.transcriptionText,
-        duration: transcription.duration,
-        wordCount: transcription.wordCount,
-        confidence: transcription.confidence,
-        processingTime: transcription.processingTime,
-        createdAt: transcription.createdAt.toISOString(),
-      });
+      const [segments, chunks] = await Promise.all([
+        storage.getTranscriptionSegments(transcription.id),
+        storage.getTranscriptionChunks(transcription.id),
+      ]);
+      res.json(toTranscriptionResponse(transcription, {
+        totalChunks: chunks.length > 0 ? chunks.length : undefined,
+        segments: segments.map(toTranscriptSegment),
+        chunks,
+      }));
     } catch (error) {
       console.error("Get transcription error:", error);
       res.status(500).json({ error: "Erro ao buscar transcrição." });
     }
   });
 
+  // Export a transcription as SRT or WebVTT subtitles built from its segment timestamps
+  app.get("/api/transcriptions/:id/export", async (req, res) => {
+    const queryResult = subtitleExportQuerySchema.safeParse(req.query);
+    if (!queryResult.success) {
+      return res.status(400).json({ error: "Parâmetros de exportação inválidos. Use format=srt ou format=vtt." });
+    }
+
+    try {
+      const transcription = await storage.getTranscription(req.params.id);
+      if (!transcription) {
+        return res.status(404).json({ error: "Transcrição não encontrada." });
+      }
+
+      const segments = await storage.getTranscriptionSegments(transcription.id);
+      if (segments.length === 0) {
+        return res.status(422).json({ error: "Esta transcrição não possui marcações de tempo para gerar legendas." });
+      }
+
+      const { format, maxCharsPerLine, maxLinesPerCue } = queryResult.data;
+      const subtitles = buildSubtitles(segments.map(toTranscriptSegment), format, {
+        maxCharsPerLine,
+        maxLinesPerCue,
+        speakerNames: transcription.diarization
+          ? Object.fromEntries(listSpeakers(transcription.diarization).map((speaker) => [speaker.id, speaker.name]))
+          : undefined,
+      });
+
+      const baseName = transcription.filename.replace(/\.[^/.]+$/, '');
+      res.attachment(`${baseName}.${format}`);
+      res.type(format === 'vtt' ? 'text/vtt; charset=utf-8' : 'application/x-subrip; charset=utf-8');
+      res.send(subtitles);
+    } catch (error) {
+      console.error("Export transcription error:", error);
+      res.status(500).json({ error: "Erro ao exportar legendas." });
+    }
+  });
+
+  // Stream the audio kept for a transcription; Range requests get 206 Partial
+  // Content, so the player can seek without downloading the whole file
+  app.get("/api/transcriptions/:id/audio", async (req, res) => {
+    try {
+      const transcription = await storage.getTranscription(req.params.id);
+      if (!transcription) {
+        return res.status(404).json({ error: "Transcrição não encontrada." });
+      }
+      if (!getPlaybackUrl(transcription)) {
+        return res.status(404).json({ error: "O áudio desta transcrição não foi guardado." });
+      }
+
+      res.sendFile(path.resolve(transcription.audioPath!), { acceptRanges: true }, (error) => {
+        // Players often drop a request midway when seeking; only report errors before anything was sent
+        if (error && !res.headersSent) {
+          console.error("Audio playback error:", error);
+          res.status(500).json({ error: "Erro ao carregar o áudio." });
+        }
+      });
+    } catch (error) {
+      console.error("Audio playback error:", error);
+      res.status(500).json({ error: "Erro ao carregar o áudio." });
+    }
+  });
+
+  // Give the speakers of a transcription real names, replacing "Falante 1" and so on
+  app.patch("/api/transcriptions/:id/speakers", async (req, res) => {
+    const bodyResult = renameSpeakersSchema.safeParse(req.body);
+    if (!bodyResult.success) {
+      return res.status(400).json({ error: "Nomes inválidos. Use no máximo 60 caracteres por falante." });
+    }
+
+    try {
+      const transcription = await storage.getTranscription(req.params.id);
+      if (!transcription) {
+        return res.status(404).json({ error: "Transcrição não encontrada." });
+      }
+      if (!transcription.diarization) {
+        return res.status(409).json({ error: "Esta transcrição não possui falantes identificados." });
+      }
+
+      const speakerIds = new Set(transcription.diarization.turns.map((turn) => turn.speaker));
+      const names = { ...transcription.diarization.names };
+      for (const [id, name] of Object.entries(bodyResult.data.names)) {
+        if (!speakerIds.has(id)) {
+          return res.status(400).json({ error: `Falante ${id} não existe nesta transcrição.` });
+        }
+        if (name) {
+          names[id] = name;
+        } else {
+          delete names[id];
+        }
+      }
+
+      const updated = await storage.updateTranscription(transcription.id, {
+        diarization: { ...transcription.diarization, names },
+      });
+      if (!updated) {
+        return res.status(404).json({ error: "Transcrição não encontrada." });
+      }
+
+      const [segments, chunks] = await Promise.all([
+        storage.getTranscriptionSegments(updated.id),
+        storage.getTranscriptionChunks(updated.id),
+      ]);
+      res.json(toTranscriptionResponse(updated, {
+        totalChunks: chunks.length > 0 ? chunks.length : undefined,
+        segments: segments.map(toTranscriptSegment),
+        chunks,
+      }));
+    } catch (error) {
+      console.error("Rename speakers error:", error);
+      res.status(500).json({ error: "Erro ao renomear falantes." });
+    }
+  });
+
+  // Re-transcribe only the chunks of a partial transcription that failed
+  app.post("/api/transcriptions/:id/retry", async (req, res) => {
+    try {
+      const transcription = await storage.getTranscription(req.params.id);
+      if (!transcription) {
+        return res.status(404).json({ error: "Transcrição não encontrada." });
+      }
+      if (retryingTranscriptions.has(transcription.id)) {
+        return res.status(409).json({ error: "Os segmentos desta transcrição já estão sendo reprocessados." });
+      }
+
+      const chunks = await storage.getTranscriptionChunks(transcription.id);
+      if (!chunks.some(isRetryableChunk)) {
+        return res.status(409).json({ error: "Não há segmentos com falha que possam ser reprocessados." });
+      }
+
+      const job = jobs.createJob(transcription.filename);
+      processRetryJob(job.id, transcription).catch((error) => {
+        console.error(`Unexpected error in job ${job.id}:`, error);
+        jobs.updateJob(job.id, {
+          state: 'failed',
+          error: "Erro interno do servidor. Tente novamente mais tarde.",
+        });
+      });
+
+      res.status(202).json(job);
+    } catch (error) {
+      console.error("Retry transcription error:", error);
+      res.status(500).json({ error: "Erro ao reprocessar segmentos." });
+    }
+  });
+
+  // Delete transcription by ID
+  app.delete("/api/transcriptions/:id", async (req, res) => {
+    try {
+      const [transcription, chunks] = await Promise.all([
+        storage.getTranscription(req.params.id),
+        storage.getTranscriptionChunks(req.params.id),
+      ]);
+      const deleted = await storage.deleteTranscription(req.params.id);
+      if (!transcription || !deleted) {
+        return res.status(404).json({ error: "Transcrição não encontrada." });
+      }
+      removeRetainedChunkAudio(chunks);
+      removeRetainedAudio(transcription);
+
+      res.status(204).end();
+    } catch (error) {
+      console.error("Delete transcription error:", error);
+      res.status(500).json({ error: "Erro ao excluir transcrição." });
+    }
+  });
+
+  // Features the client should offer on this server
+  app.get("/api/config", (req, res) => {
+    const config: ServerConfig = { diarization: diarizer !== null };
+    res.json(config);
+  });
+
   // Health check endpoint for Docker
   app.get('/api/health', (req, res) => {
     res.status(200).json({ 
@@ -426,5 +970,6 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   const httpServer = createServer(app);
+  attachLiveTranscription(httpServer, saveLiveSession);
   return httpServer;
 }
@@ -0,0 +1,186 @@
+import type { TranscriptSegment } from "@shared/schema";
+
+// Shortest run of identical words accepted as the same speech heard by both
+// chunks; two or three words like "e o" or "de que" repeat too often by chance
+const MIN_ALIGNMENT_WORDS = 4;
+
+// Word times are estimated by spreading each segment evenly over its words, so
+// a matching run may land slightly outside the overlap it was heard in
+const ALIGNMENT_TOLERANCE_SECONDS = 1;
+
+// Whisper reads at most 224 tokens of prompt; a few dozen words of context is plenty
+const PROMPT_MAX_WORDS = 50;
+
+interface SegmentWord {
+  text: string;
+  normalized: string; // lowercase, without accents or punctuation, for comparison
+}
+
+function splitWords(text: string): SegmentWord[] {
+  return text.split(/\s+/).filter(Boolean).map((word) => ({
+    text: word,
+    normalized: word
+      .toLowerCase()
+      .normalize("NFD")
+      .replace(/[\u0300-\u036f]/g, "")
+      .replace(/[^a-z0-9]/g, ""),
+  }));
+}
+
+// Find the longest run of words that appears in both lists, returning where it
+// starts in each list and how many words it spans
+function longestCommonRun(
+  a: SegmentWord[],
+  b: SegmentWord[]
+): { aIndex: number; bIndex: number; length: number } {
+  let best = { aIndex: 0, bIndex: 0, length: 0 };
+  // runs[j] is the length of the common run ending at a[i - 1] and b[j - 1]
+  let previousRuns = new Array<number>(b.length + 1).fill(0);
+
+  for (let i = 1; i <= a.length; i++) {
+    const runs = new Array<number>(b.length + 1).fill(0);
+    for (let j = 1; j <= b.length; j++) {
+      const word = a[i - 1].normalized;
+      if (word && word === b[j - 1].normalized) {
+        runs[j] = previousRuns[j - 1] + 1;
+        if (runs[j] > best.length) {
+          best = { aIndex: i - runs[j], bIndex: j - runs[j], length: runs[j] };
+        }
+      }
+    }
+    previousRuns = runs;
+  }
+
+  return best;
+}
+
+// Estimated time of each word of the concatenated segment text, assuming the
+// words of a segment are spread evenly over it
+function wordTimes(segments: TranscriptSegment[]): number[] {
+  return segments.flatMap((segment) => {
+    const words = splitWords(segment.text);
+    const secondsPerWord = (segment.end - segment.start) / words.length;
+    return words.map((_, index) => segment.start + secondsPerWord * (index + 0.5));
+  });
+}
+
+// Keep only the words in [from, to) of the concatenated segment text. Segments
+// that lose some words get their times shrunk in proportion to the words kept.
+function keepWordRange(segments: TranscriptSegment[], from: number, to: number): TranscriptSegment[] {
+  const kept: TranscriptSegment[] = [];
+  let offset = 0;
+
+  for (const segment of segments) {
+    const words = splitWords(segment.text);
+    const segmentFrom = Math.max(from - offset, 0);
+    const segmentTo = Math.min(to - offset, words.length);
+    offset += words.length;
+
+    if (segmentFrom >= segmentTo) {
+      continue;
+    }
+    if (segmentFrom === 0 && segmentTo === words.length) {
+      kept.push(segment);
+      continue;
+    }
+
+    const secondsPerWord = (segment.end - segment.start) / words.length;
+    kept.push({
+      ...segment,
+      start: segment.start + secondsPerWord * segmentFrom,
+      end: segment.start + secondsPerWord * segmentTo,
+      text: words.slice(segmentFrom, segmentTo).map((word) => word.text).join(" "),
+    });
+  }
+
+  return kept;
+}
+
+/**
+ * Removes the speech transcribed twice where two consecutive chunks overlap.
+ * Words heard by both chunks are matched by text; the cut is placed in the
+ * middle of the longest matching run so neither chunk's edge, where Whisper
+ * lacks context, is used. A run only counts when it is long enough and lies
+ * inside the overlap in both chunks; otherwise the overlap is split at its
+ * midpoint using segment times.
+ * @param previous - Segments of the earlier chunk, in original-audio time
+ * @param next - Segments of the later chunk, in original-audio time
+ * @param overlapStart - Where the later chunk starts
+ * @param overlapEnd - Where the earlier chunk ends
+ * @returns Both segment lists with the duplicated speech removed from one of them
+ */
+export function stitchSegments(
+  previous: TranscriptSegment[],
+  next: TranscriptSegment[],
+  overlapStart: number,
+  overlapEnd: number
+): { previous: TranscriptSegment[]; next: TranscriptSegment[] } {
+  if (overlapEnd <= overlapStart || previous.length === 0 || next.length === 0) {
+    return { previous, next };
+  }
+
+  // Only segments touching the overlap can contain repeated speech
+  let tailStart = previous.findIndex((segment) => segment.end > overlapStart);
+  if (tailStart < 0) {
+    tailStart = previous.length;
+  }
+  let headEnd = next.findIndex((segment) => segment.start >= overlapEnd);
+  if (headEnd < 0) {
+    headEnd = next.length;
+  }
+
+  const tail = previous.slice(tailStart);
+  const head = next.slice(0, headEnd);
+  if (tail.length === 0 || head.length === 0) {
+    return { previous, next };
+  }
+
+  const tailWords = tail.flatMap((segment) => splitWords(segment.text));
+  const headWords = head.flatMap((segment) => splitWords(segment.text));
+  const match = longestCommonRun(tailWords, headWords);
+
+  const tailTimes = wordTimes(tail);
+  const headTimes = wordTimes(head);
+  const isInOverlap = (time: number) =>
+    time >= overlapStart - ALIGNMENT_TOLERANCE_SECONDS && time <= overlapEnd + ALIGNMENT_TOLERANCE_SECONDS;
+  const isAligned =
+    match.length >= MIN_ALIGNMENT_WORDS &&
+    [
+      tailTimes[match.aIndex],
+      tailTimes[match.aIndex + match.length - 1],
+      headTimes[match.bIndex],
+      headTimes[match.bIndex + match.length - 1],
+    ].every(isInOverlap);
+
+  let keptTail: TranscriptSegment[];
+  let keptHead: TranscriptSegment[];
+  if (isAligned) {
+    const cut = Math.ceil(match.length / 2);
+    keptTail = keepWordRange(tail, 0, match.aIndex + cut);
+    keptHead = keepWordRange(head, match.bIndex + cut, headWords.length);
+  } else {
+    const midpoint = (overlapStart + overlapEnd) / 2;
+    keptTail = tail.filter((segment) => (segment.start + segment.end) / 2 < midpoint);
+    keptHead = head.filter((segment) => (segment.start + segment.end) / 2 >= midpoint);
+  }
+
+  return {
+    previous: [...previous.slice(0, tailStart), ...keptTail],
+    next: [...keptHead, ...next.slice(headEnd)],
+  };
+}
+
+/**
+ * Builds a Whisper prompt from the last words spoken before a given time, so
+ * the next chunk continues the same spelling, names and punctuation style
+ * @param segments - Segments of the previous chunk
+ * @param before - Time, on the same clock as the segments, where the next chunk starts
+ */
+export function buildContinuationPrompt(segments: TranscriptSegment[], before: number): string | undefined {
+  const preceding = segments.filter((segment) => segment.end <= before);
+  const words = (preceding.length > 0 ? preceding : segments)
+    .flatMap((segment) => splitWords(segment.text))
+    .map((word) => word.text);
+
+  return words.length > 0 ? words.slice(-PROMPT_MAX_WORDS).join(" ") : undefined;
+}
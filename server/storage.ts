@@ -1,23 +1,101 @@
-import { type Transcription, type InsertTranscription } from "@shared/schema";
+import {
+  transcriptions,
+  transcriptionSegments,
+  transcriptionChunks,
+  type Transcription,
+  type InsertTranscription,
+  type TranscriptionSegment,
+  type InsertTranscriptionSegment,
+  type TranscriptionChunk,
+  type InsertTranscriptionChunk,
+  type ListTranscriptionsQuery,
+} from "@shared/schema";
 import { randomUUID } from "crypto";
+import { and, asc, count, desc, eq, ilike, isNotNull, sql, type SQL } from "drizzle-orm";
+import { createDb, type Database } from "./db";
+
+export interface TranscriptionPage {
+  items: Transcription[];
+  total: number;
+}
 
 export interface IStorage {
   getTranscription(id: string): Promise<Transcription | undefined>;
-  createTranscription(transcription: InsertTranscription): Promise<Transcription>;
+  listTranscriptions(query: ListTranscriptionsQuery): Promise<TranscriptionPage>;
+  getTranscriptionSegments(transcriptionId: string): Promise<TranscriptionSegment[]>;
+  getTranscriptionChunks(transcriptionId: string): Promise<TranscriptionChunk[]>;
+  createTranscription(
+    transcription: InsertTranscription,
+    segments?: InsertTranscriptionSegment[],
+    chunks?: InsertTranscriptionChunk[]
+  ): Promise<Transcription>;
+  // Replace a transcription's fields and, when given, all of its segments and chunks
+  updateTranscription(
+    id: string,
+    update: Partial<InsertTranscription>,
+    segments?: InsertTranscriptionSegment[],
+    chunks?: InsertTranscriptionChunk[]
+  ): Promise<Transcription | undefined>;
+  deleteTranscription(id: string): Promise<boolean>;
+  // Audio files kept by any transcription, for playback or to retry its failed chunks
+  listAudioPaths(): Promise<string[]>;
 }
 
+// Keep multi-row inserts well below PostgreSQL's limit on bind parameters
+const SEGMENT_INSERT_BATCH_SIZE = 1000;
+
 export class MemStorage implements IStorage {
   private transcriptions: Map<string, Transcription>;
+  private segments: Map<string, TranscriptionSegment[]>;
+  private chunks: Map<string, TranscriptionChunk[]>;
 
   constructor() {
     this.transcriptions = new Map();
+    this.segments = new Map();
+    this.chunks = new Map();
   }
 
   async getTranscription(id: string): Promise<Transcription | undefined> {
     return this.transcriptions.get(id);
   }
 
-  async createTranscription(insertTranscription: InsertTranscription): Promise<Transcription> {
+  async listTranscriptions(query: ListTranscriptionsQuery): Promise<TranscriptionPage> {
+    const filename = query.filename?.toLowerCase();
+    const searchTerms = query.search?.toLowerCase().split(/\s+/) ?? [];
+
+    const matches = Array.from(this.transcriptions.values())
+      .filter((transcription) => {
+        if (filename && !transcription.filename.toLowerCase().includes(filename)) {
+          return false;
+        }
+        const text = transcription.transcriptionText.toLowerCase();
+        return searchTerms.every((term) => text.includes(term));
+      })
+      .sort((a, b) => {
+        const difference = a.createdAt.getTime() - b.createdAt.getTime();
+        return query.sort === "asc" ? difference : -difference;
+      });
+
+    const offset = (query.page - 1) * query.pageSize;
+    return {
+      items: matches.slice(offset, offset + query.pageSize),
+      total: matches.length,
+    };
+  }
+
+  async getTranscriptionSegments(transcriptionId: string): Promise<TranscriptionSegment[]> {
+    return this.segments.get(transcriptionId) ?? [];
+  }
+
+  async getTranscriptionChunks(transcriptionId: string): Promise<TranscriptionChunk[]> {
+    return this.chunks.get(transcriptionId) ?? [];
+  }
+
+  async createTranscription(
+    insertTranscription: InsertTranscription,
+    segments: InsertTranscriptionSegment[] = [],
+    chunks: InsertTranscriptionChunk[] = []
+  ): Promise<Transcription> {
     const id = randomUUID();
     const transcription: Transcription = { 
       ...insertTranscription, 
@@ -25,10 +103,233 @@ export class MemStorage implements IStorage {
       createdAt: new Date(),
       duration: insertTranscription.duration ?? null,
       confidence: insertTranscription.confidence ?? null,
+      language: insertTranscription.language ?? null,
+      translatedText: insertTranscription.translatedText ?? null,
+      translationLanguage: insertTranscription.translationLanguage ?? null,
+      status: insertTranscription.status ?? "complete",
+      preprocessing: insertTranscription.preprocessing ?? null,
+      voiceActivity: insertTranscription.voiceActivity ?? null,
+      diarization: insertTranscription.diarization ?? null,
+      audioPath: insertTranscription.audioPath ?? null,
     };
     this.transcriptions.set(id, transcription);
+    this.setChildren(id, segments, chunks);
+    return transcription;
+  }
+
+  async updateTranscription(
+    id: string,
+    update: Partial<InsertTranscription>,
+    segments?: InsertTranscriptionSegment[],
+    chunks?: InsertTranscriptionChunk[]
+  ): Promise<Transcription | undefined> {
+    const existing = this.transcriptions.get(id);
+    if (!existing) {
+      return undefined;
+    }
+
+    const transcription: Transcription = { ...existing, ...update };
+    this.transcriptions.set(id, transcription);
+    if (segments && chunks) {
+      this.setChildren(id, segments, chunks);
+    }
     return transcription;
   }
+
+  async deleteTranscription(id: string): Promise<boolean> {
+    this.segments.delete(id);
+    this.chunks.delete(id);
+    return this.transcriptions.delete(id);
+  }
+
+  async listAudioPaths(): Promise<string[]> {
+    return [
+      ...Array.from(this.transcriptions.values()).map((transcription) => transcription.audioPath),
+      ...Array.from(this.chunks.values()).flat().map((chunk) => chunk.audioPath),
+    ].filter((audioPath): audioPath is string => !!audioPath);
+  }
+
+  private setChildren(
+    transcriptionId: string,
+    segments: InsertTranscriptionSegment[],
+    chunks: InsertTranscriptionChunk[]
+  ) {
+    this.segments.set(transcriptionId, segments.map((segment) => ({
+      ...segment,
+      id: randomUUID(),
+      transcriptionId,
+      avgLogprob: segment.avgLogprob ?? null,
+      speaker: segment.speaker ?? null,
+    })));
+    this.chunks.set(transcriptionId, chunks.map((chunk) => ({
+      ...chunk,
+      id: randomUUID(),
+      transcriptionId,
+      errorCode: chunk.errorCode ?? null,
+      errorMessage: chunk.errorMessage ?? null,
+      text: chunk.text ?? null,
+      translatedText: chunk.translatedText ?? null,
+      audioPath: chunk.audioPath ?? null,
+    })));
+  }
+}
+
+export class DatabaseStorage implements IStorage {
+  constructor(private db: Database) {}
+
+  async getTranscription(id: string): Promise<Transcription | undefined> {
+    const [transcription] = await this.db
+      .select()
+      .from(transcriptions)
+      .where(eq(transcriptions.id, id));
+    return transcription;
+  }
+
+  async listTranscriptions(query: ListTranscriptionsQuery): Promise<TranscriptionPage> {
+    const conditions: SQL[] = [];
+    if (query.filename) {
+      conditions.push(ilike(transcriptions.filename, `%${escapeLikePattern(query.filename)}%`));
+    }
+    if (query.search) {
+      conditions.push(
+        sql`to_tsvector('simple', ${transcriptions.transcriptionText}) @@ websearch_to_tsquery('simple', ${query.search})`
+      );
+    }
+    const where = conditions.length > 0 ? and(...conditions) : undefined;
+
+    const items = await this.db
+      .select()
+      .from(transcriptions)
+      .where(where)
+      .orderBy(query.sort === "asc" ? asc(transcriptions.createdAt) : desc(transcriptions.createdAt))
+      .limit(query.pageSize)
+      .offset((query.page - 1) * query.pageSize);
+
+    const [{ total }] = await this.db
+      .select({ total: count() })
+      .from(transcriptions)
+      .where(where);
+
+    return { items, total };
+  }
+
+  async getTranscriptionSegments(transcriptionId: string): Promise<TranscriptionSegment[]> {
+    return this.db
+      .select()
+      .from(transcriptionSegments)
+      .where(eq(transcriptionSegments.transcriptionId, transcriptionId))
+      .orderBy(asc(transcriptionSegments.position));
+  }
+
+  async getTranscriptionChunks(transcriptionId: string): Promise<TranscriptionChunk[]> {
+    return this.db
+      .select()
+      .from(transcriptionChunks)
+      .where(eq(transcriptionChunks.transcriptionId, transcriptionId))
+      .orderBy(asc(transcriptionChunks.position));
+  }
+
+  async createTranscription(
+    insertTranscription: InsertTranscription,
+    segments: InsertTranscriptionSegment[] = [],
+    chunks: InsertTranscriptionChunk[] = []
+  ): Promise<Transcription> {
+    return this.db.transaction(async (tx) => {
+      const [transcription] = await tx
+        .insert(transcriptions)
+        .values(insertTranscription)
+        .returning();
+
+      await insertChildren(tx, transcription.id, segments, chunks);
+      return transcription;
+    });
+  }
+
+  async updateTranscription(
+    id: string,
+    update: Partial<InsertTranscription>,
+    segments?: InsertTranscriptionSegment[],
+    chunks?: InsertTranscriptionChunk[]
+  ): Promise<Transcription | undefined> {
+    return this.db.transaction(async (tx) => {
+      const [transcription] = await tx
+        .update(transcriptions)
+        .set(update)
+        .where(eq(transcriptions.id, id))
+        .returning();
+      if (!transcription) {
+        return undefined;
+      }
+
+      if (segments && chunks) {
+        await tx.delete(transcriptionSegments).where(eq(transcriptionSegments.transcriptionId, id));
+        await tx.delete(transcriptionChunks).where(eq(transcriptionChunks.transcriptionId, id));
+        await insertChildren(tx, id, segments, chunks);
+      }
+      return transcription;
+    });
+  }
+
+  async deleteTranscription(id: string): Promise<boolean> {
+    const deleted = await this.db
+      .delete(transcriptions)
+      .where(eq(transcriptions.id, id))
+      .returning({ id: transcriptions.id });
+    return deleted.length > 0;
+  }
+
+  async listAudioPaths(): Promise<string[]> {
+    const [recordings, chunkAudio] = await Promise.all([
+      this.db
+        .select({ audioPath: transcriptions.audioPath })
+        .from(transcriptions)
+        .where(isNotNull(transcriptions.audioPath)),
+      this.db
+        .select({ audioPath: transcriptionChunks.audioPath })
+        .from(transcriptionChunks)
+        .where(isNotNull(transcriptionChunks.audioPath)),
+    ]);
+    return [...recordings, ...chunkAudio].map((row) => row.audioPath!);
+  }
+}
+
+type Transaction = Parameters<Parameters<Database["transaction"]>[0]>[0];
+
+async function insertChildren(
+  tx: Transaction,
+  transcriptionId: string,
+  segments: InsertTranscriptionSegment[],
+  chunks: InsertTranscriptionChunk[]
+) {
+  for (let i = 0; i < segments.length; i += SEGMENT_INSERT_BATCH_SIZE) {
+    const batch = segments.slice(i, i + SEGMENT_INSERT_BATCH_SIZE);
+    await tx
+      .insert(transcriptionSegments)
+      .values(batch.map((segment) => ({ ...segment, transcriptionId })));
+  }
+
+  if (chunks.length > 0) {
+    await tx
+      .insert(transcriptionChunks)
+      .values(chunks.map((chunk) => ({ ...chunk, transcriptionId })));
+  }
+}
+
+// Escape the LIKE wildcards so user input is matched literally
+function escapeLikePattern(value: string): string {
+  return value.replace(/[\\%_]/g, (char) => `\\${char}`);
+}
+
+// Persist to PostgreSQL when a database is configured; otherwise keep
+// transcriptions in memory, which is enough for local development
+function createStorage(): IStorage {
+  if (process.env.DATABASE_URL) {
+    console.log("Using PostgreSQL storage");
+    return new DatabaseStorage(createDb(process.env.DATABASE_URL));
+  }
+
+  console.log("DATABASE_URL not set, using in-memory storage");
+  return new MemStorage();
 }
 
-export const storage = new MemStorage();
+export const storage = createStorage();
@@ -0,0 +1,129 @@
+import type { SubtitleFormat, TranscriptSegment } from "@shared/schema";
+
+export interface SubtitleOptions {
+  maxCharsPerLine: number;
+  maxLinesPerCue: number;
+  // Names to label speakers with, by the speaker id on each segment
+  speakerNames?: Record<string, string>;
+}
+
+interface SubtitleCue {
+  start: number;
+  end: number;
+  lines: string[];
+  speaker?: string;
+}
+
+// Greedily wrap words into lines no longer than maxChars; a single word longer
+// than the limit gets a line of its own rather than being broken
+function wrapText(text: string, maxChars: number): string[] {
+  const lines: string[] = [];
+  let currentLine = '';
+
+  for (const word of text.split(/\s+/).filter(Boolean)) {
+    if (!currentLine) {
+      currentLine = word;
+    } else if (currentLine.length + 1 + word.length <= maxChars) {
+      currentLine += ` ${word}`;
+    } else {
+      lines.push(currentLine);
+      currentLine = word;
+    }
+  }
+
+  if (currentLine) {
+    lines.push(currentLine);
+  }
+  return lines;
+}
+
+// Turn each segment into one or more cues. When a segment wraps to more lines
+// than fit in a cue, its time span is divided in proportion to the characters
+// shown in each cue
+function buildCues(segments: TranscriptSegment[], format: SubtitleFormat, options: SubtitleOptions): SubtitleCue[] {
+  const cues: SubtitleCue[] = [];
+  let previousSpeaker: string | undefined;
+
+  for (const segment of segments) {
+    const speaker = segment.speaker ? options.speakerNames?.[segment.speaker] : undefined;
+    // SRT has no speaker markup, so the name goes into the text each time the speaker changes
+    const text = format === 'srt' && speaker && segment.speaker !== previousSpeaker
+      ? `${speaker}: ${segment.text}`
+      : segment.text;
+    previousSpeaker = segment.speaker;
+
+    const lines = wrapText(text, options.maxCharsPerLine);
+    if (lines.length === 0) {
+      continue;
+    }
+
+    const totalChars = lines.reduce((sum, line) => sum + line.length, 0);
+    const segmentDuration = Math.max(segment.end - segment.start, 0);
+    let cueStart = segment.start;
+
+    for (let i = 0; i < lines.length; i += options.maxLinesPerCue) {
+      const cueLines = lines.slice(i, i + options.maxLinesPerCue);
+      const cueChars = cueLines.reduce((sum, line) => sum + line.length, 0);
+      const isLastCue = i + options.maxLinesPerCue >= lines.length;
+      const cueEnd = isLastCue
+        ? segment.end
+        : cueStart + segmentDuration * (cueChars / totalChars);
+
+      cues.push({ start: cueStart, end: cueEnd, lines: cueLines, speaker });
+      cueStart = cueEnd;
+    }
+  }
+
+  return cues;
+}
+
+// WebVTT cue text is markup: "&" and "<" would start an entity or a tag, and
+// once ">" is escaped an "-->" in the text can no longer be read as a timing line
+function escapeVttText(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+// WebVTT voice span, e.g. "<v Maria>"; the name has to stay on one line
+function formatVoiceTag(speaker: string): string {
+  return `<v ${escapeVttText(speaker.replace(/\s+/g, ' '))}>`;
+}
+
+// Format seconds as HH:MM:SS followed by the milliseconds separator of each format
+function formatTimestamp(seconds: number, millisecondSeparator: ',' | '.'): string {
+  const totalMs = Math.max(Math.round(seconds * 1000), 0);
+  const hours = Math.floor(totalMs / 3600000);
+  const minutes = Math.floor((totalMs % 3600000) / 60000);
+  const secs = Math.floor((totalMs % 60000) / 1000);
+  const ms = totalMs % 1000;
+
+  return `${hours.toString().padStart(2, '0')}:${minutes.toString().padStart(2, '0')}:` +
+    `${secs.toString().padStart(2, '0')}${millisecondSeparator}${ms.toString().padStart(3, '0')}`;
+}
+
+/**
+ * Renders timed transcript segments as an SRT or WebVTT subtitle file
+ * @param segments - Segments with times relative to the start of the audio
+ * @param format - "srt" or "vtt"
+ * @param options - Line length and lines-per-cue limits, and speaker names to label cues with
+ * @returns The subtitle file contents
+ */
+export function buildSubtitles(
+  segments: TranscriptSegment[],
+  format: SubtitleFormat,
+  options: SubtitleOptions
+): string {
+  const cues = buildCues(segments, format, options);
+
+  if (format === 'vtt') {
+    const body = cues.map((cue) =>
+      `${formatTimestamp(cue.start, '.')} --> ${formatTimestamp(cue.end, '.')}\n` +
+      `${cue.speaker ? formatVoiceTag(cue.speaker) : ''}${cue.lines.map(escapeVttText).join('\n')}`
+    );
+    return ['WEBVTT', ...body].join('\n\n') + '\n';
+  }
+
+  const body = cues.map((cue, index) =>
+    `${index + 1}\n${formatTimestamp(cue.start, ',')} --> ${formatTimestamp(cue.end, ',')}\n${cue.lines.join('\n')}`
+  );
+  return body.join('\n\n') + '\n';
+}
@@ -0,0 +1,127 @@
+import crypto from "crypto";
+import path from "path";
+import { Server } from "@tus/server";
+import { FileStore } from "@tus/file-store";
+import type { Upload } from "@tus/utils";
+import { MAX_AUDIO_UPLOAD_BYTES, MAX_VIDEO_UPLOAD_BYTES, videoFileExtensions } from "@shared/schema";
+
+// Shared by the multipart and resumable upload endpoints
+export const UPLOAD_DIRECTORY = 'uploads';
+
+// Extension check - more reliable than MIME type for audio files
+// OpenAI native formats: flac, m4a, mp3, mp4, mpeg, mpga, oga, ogg, wav, webm
+// Additional formats that will be converted: opus, and video containers whose audio is extracted
+export const ALLOWED_AUDIO_EXTENSIONS = ['.mp3', '.wav', '.m4a', '.flac', '.ogg', '.webm', '.mpga', '.oga', '.opus'];
+export const UNSUPPORTED_FORMAT_MESSAGE = 'Formato de arquivo não suportado. Use MP3, WAV, M4A, FLAC, OGG, WEBM, OPUS ou vídeos MP4, MKV, MOV e AVI.';
+export const FILE_TOO_LARGE_MESSAGE = 'Arquivo muito grande. O tamanho máximo é 100MB para áudio e 1GB para vídeo.';
+
+export const RESUMABLE_UPLOAD_PATH = '/api/uploads';
+
+// Unfinished resumable uploads are kept this long so a dropped connection can pick up where it stopped
+const UPLOAD_EXPIRATION_MS = 24 * 60 * 60 * 1000;
+const EXPIRED_UPLOAD_CLEANUP_INTERVAL_MS = 60 * 60 * 1000;
+
+// Upload ids are random hex plus the original extension; anything else never came from namingFunction
+const UPLOAD_ID_PATTERN = /^[a-f0-9]{32}(\.[a-z0-9]+)?$/;
+
+// The parts of an uploaded file the transcription pipeline needs, whichever endpoint received it
+export interface UploadedAudioFile {
+  path: string;
+  originalname: string;
+  size: number;
+  mimetype: string;
+}
+
+export function isVideoFilename(filename: string): boolean {
+  const lowerCaseName = filename.toLowerCase();
+  return videoFileExtensions.some(ext => lowerCaseName.endsWith(ext));
+}
+
+export function hasAllowedExtension(filename: string): boolean {
+  const lowerCaseName = filename.toLowerCase();
+  return isVideoFilename(filename) || ALLOWED_AUDIO_EXTENSIONS.some(ext => lowerCaseName.endsWith(ext));
+}
+
+// Largest upload accepted for a file with this name
+export function getMaxUploadSize(filename: string): number {
+  return isVideoFilename(filename) ? MAX_VIDEO_UPLOAD_BYTES : MAX_AUDIO_UPLOAD_BYTES;
+}
+
+const fileStore = new FileStore({
+  directory: UPLOAD_DIRECTORY,
+  expirationPeriodInMilliseconds: UPLOAD_EXPIRATION_MS,
+});
+
+/**
+ * tus protocol server for resumable uploads. Files are written to the same
+ * directory as multipart uploads and keep their extension, so the rest of the
+ * pipeline (and the OpenAI client, which infers the format from the name)
+ * treats them the same way.
+ */
+export const tusServer = new Server({
+  path: RESUMABLE_UPLOAD_PATH,
+  datastore: fileStore,
+  // The per-format limit is checked in onUploadCreate, once the file name is known
+  maxSize: MAX_VIDEO_UPLOAD_BYTES,
+  relativeLocation: true,
+  respectForwardedHeaders: true,
+  namingFunction: (req, metadata) => {
+    const ext = path.extname(metadata?.filename ?? '').toLowerCase();
+    return crypto.randomBytes(16).toString('hex') + ext;
+  },
+  onUploadCreate: async (req, upload) => {
+    const filename = upload.metadata?.filename;
+    if (!filename) {
+      throw { status_code: 400, body: 'Nome do arquivo não informado.' };
+    }
+    if (!hasAllowedExtension(filename)) {
+      throw { status_code: 400, body: UNSUPPORTED_FORMAT_MESSAGE };
+    }
+    if (upload.size !== undefined && upload.size > getMaxUploadSize(filename)) {
+      throw { status_code: 413, body: FILE_TOO_LARGE_MESSAGE };
+    }
+    return {};
+  },
+});
+
+setInterval(() => {
+  tusServer.cleanUpExpiredUploads()
+    .then((removed) => {
+      if (removed > 0) {
+        console.log(`Removed ${removed} expired resumable uploads`);
+      }
+    })
+    .catch((error) => console.error("Failed to clean up expired uploads:", error));
+}, EXPIRED_UPLOAD_CLEANUP_INTERVAL_MS).unref();
+
+// Look up a resumable upload by the id at the end of its tus URL
+export async function findUpload(uploadId: string): Promise<Upload | null> {
+  if (!UPLOAD_ID_PATTERN.test(uploadId)) {
+    return null;
+  }
+  try {
+    return await fileStore.getUpload(uploadId);
+  } catch {
+    return null;
+  }
+}
+
+export function isUploadComplete(upload: Upload): boolean {
+  return upload.size !== undefined && upload.offset === upload.size;
+}
+
+/**
+ * Takes a finished resumable upload out of the tus store so it can be
+ * transcribed. The file stays on disk, but the upload can no longer be
+ * resumed, fetched or claimed a second time.
+ */
+export async function claimUpload(upload: Upload): Promise<UploadedAudioFile> {
+  await fileStore.configstore.delete(upload.id);
+
+  return {
+    path: path.join(UPLOAD_DIRECTORY, upload.id),
+    originalname: upload.metadata?.filename ?? upload.id,
+    size: upload.offset,
+    mimetype: upload.metadata?.filetype || 'application/octet-stream',
+  };
+}
@@ -0,0 +1,166 @@
+import fs from "fs";
+import { exec } from "child_process";
+import { promisify } from "util";
+import type { SpeechRegion, VoiceActivity } from "@shared/schema";
+import {
+  detectSilences,
+  getAudioDuration,
+  NORMALIZED_AUDIO,
+  type SilenceInterval,
+  type StageProgressCallback,
+} from "./audio";
+
+const execAsync = promisify(exec);
+
+interface TimedSpan {
+  start: number;
+  end: number;
+}
+
+// Only pauses at least this long are left out; shorter ones are part of normal speech
+const VAD_MIN_SILENCE_SECONDS = Math.max(1, parseFloat(process.env.VAD_MIN_SILENCE_SECONDS || '3') || 3);
+
+// Audio kept on each side of a skipped pause so the first and last syllables survive
+const VAD_PADDING_SECONDS = 0.5;
+
+// Less than this is not worth encoding the audio again
+const VAD_MIN_SKIPPED_SECONDS = 5;
+
+/**
+ * Work out which parts of the audio to keep when pauses of at least
+ * minSilenceSeconds are left out, and where each part lands once the kept
+ * parts are joined back to back
+ */
+export function planSpeechRegions(
+  totalDuration: number,
+  silences: SilenceInterval[],
+  minSilenceSeconds: number,
+  paddingSeconds: number
+): SpeechRegion[] {
+  const regions: SpeechRegion[] = [];
+  let regionStart = 0;
+  let offset = 0;
+
+  for (const silence of silences) {
+    if (silence.end - silence.start < minSilenceSeconds) {
+      continue;
+    }
+    const cutStart = silence.start > 0 ? silence.start + paddingSeconds : 0;
+    const cutEnd = silence.end < totalDuration ? silence.end - paddingSeconds : totalDuration;
+    if (cutEnd <= cutStart || cutEnd <= regionStart) {
+      continue;
+    }
+    if (cutStart > regionStart) {
+      regions.push({ start: regionStart, end: cutStart, offset });
+      offset += cutStart - regionStart;
+    }
+    regionStart = cutEnd;
+  }
+
+  if (regionStart < totalDuration) {
+    regions.push({ start: regionStart, end: totalDuration, offset });
+  }
+  return regions;
+}
+
+// Map a time in the trimmed audio back onto the original recording. A time
+// right at the seam between two regions belongs to the earlier one when it
+// ends something (`isEnd`) and to the later one when it starts something.
+export function toOriginalTime(regions: SpeechRegion[], time: number, isEnd = false): number {
+  let region = regions[0];
+  for (const candidate of regions) {
+    if (isEnd ? candidate.offset < time : candidate.offset <= time) {
+      region = candidate;
+    } else {
+      break;
+    }
+  }
+  return Math.min(region.start + Math.max(time - region.offset, 0), region.end);
+}
+
+// Map a time in the original recording onto the trimmed audio; times inside a
+// skipped pause land where the next kept region starts
+export function toTrimmedTime(regions: SpeechRegion[], time: number): number {
+  for (const region of regions) {
+    if (time < region.start) {
+      return region.offset;
+    }
+    if (time <= region.end) {
+      return region.offset + time - region.start;
+    }
+  }
+  const last = regions[regions.length - 1];
+  return last ? last.offset + last.end - last.start : time;
+}
+
+// Works for anything with a time span, e.g. transcript segments and speaker turns
+export function mapSegmentsToOriginal<T extends TimedSpan>(regions: SpeechRegion[], segments: T[]): T[] {
+  return segments.map((segment) => ({
+    ...segment,
+    start: toOriginalTime(regions, segment.start),
+    end: toOriginalTime(regions, segment.end, true),
+  }));
+}
+
+export function mapSegmentsToTrimmed<T extends TimedSpan>(regions: SpeechRegion[], segments: T[]): T[] {
+  return segments.map((segment) => ({
+    ...segment,
+    start: toTrimmedTime(regions, segment.start),
+    end: toTrimmedTime(regions, segment.end),
+  }));
+}
+
+/**
+ * Leave long pauses out of an audio file so they are neither paid for nor
+ * filled in with made-up phrases by the provider. Returns the trimmed file and
+ * the regions needed to map its times back, or null when there was too little
+ * silence to bother. The input is left in place, as playback uses the full audio.
+ */
+export async function skipSilences(
+  inputPath: string,
+  onProgress?: StageProgressCallback
+): Promise<{ path: string; voiceActivity: VoiceActivity } | null> {
+  onProgress?.(0, 'Procurando trechos sem fala');
+  const totalDuration = await getAudioDuration(inputPath);
+  const silences = await detectSilences(inputPath, VAD_MIN_SILENCE_SECONDS);
+  const regions = planSpeechRegions(totalDuration, silences, VAD_MIN_SILENCE_SECONDS, VAD_PADDING_SECONDS);
+  const keptSeconds = regions.reduce((total, region) => total + region.end - region.start, 0);
+  const skippedSeconds = totalDuration - keptSeconds;
+
+  if (regions.length === 0 || skippedSeconds < VAD_MIN_SKIPPED_SECONDS) {
+    onProgress?.(1, 'Nenhum silêncio longo encontrado');
+    return null;
+  }
+
+  const outputPath = inputPath.replace(/\.[^./\\]+$/, '') + '-speech.mp3';
+  try {
+    console.log(`Skipping ${skippedSeconds.toFixed(1)}s of silence in ${regions.length} regions: ${inputPath} -> ${outputPath}`);
+    onProgress?.(0.5, `Removendo ${Math.round(skippedSeconds)}s de silêncio`);
+
+    const escapedInputPath = inputPath.replace(/'/g, "'\\''");
+    const escapedOutputPath = outputPath.replace(/'/g, "'\\''");
+    const selection = regions
+      .map((region) => `between(t,${region.start.toFixed(3)},${region.end.toFixed(3)})`)
+      .join('+');
+    const command = `ffmpeg -y -i '${escapedInputPath}' -af "aselect='${selection}',asetpts=N/SR/TB" ` +
+      `-ac ${NORMALIZED_AUDIO.channels} -ar ${NORMALIZED_AUDIO.sampleRate} ` +
+      `-codec:a libmp3lame -b:a ${NORMALIZED_AUDIO.bitRate / 1000}k '${escapedOutputPath}'`;
+    await execAsync(command);
+
+    if (!fs.existsSync(outputPath) || fs.statSync(outputPath).size === 0) {
+      throw new Error('Silence removal failed: output file is missing or empty');
+    }
+  } catch (error) {
+    if (fs.existsSync(outputPath)) {
+      fs.unlinkSync(outputPath);
+    }
+    throw error;
+  }
+
+  onProgress?.(1, `${Math.round(skippedSeconds)}s de silêncio ignorados`);
+
+  return {
+    path: outputPath,
+    voiceActivity: { originalDuration: totalDuration, skippedSeconds, regions },
+  };
+}
@@ -1,5 +1,5 @@
-import { sql } from "drizzle-orm";
-import { pgTable, text, varchar, timestamp, integer, real } from "drizzle-orm/pg-core";
+import { sql, relations } from "drizzle-orm";
+import { pgTable, text, varchar, timestamp, integer, real, index, jsonb } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
@@ -13,16 +13,169 @@ export const transcriptions = pgTable("transcriptions", {
   wordCount: integer("word_count").notNull(),
   confidence: real("confidence"),
   processingTime: real("processing_time").notNull(),
+  language: text("language"), // ISO 639-1 code used or detected by the provider
+  // Set when the upload asked for a translation alongside the transcript
+  translatedText: text("translated_text"),
+  translationLanguage: text("translation_language"),
+  // "partial" when some chunks of a long recording could not be transcribed
+  status: text("status").notNull().default("complete"),
+  // How the upload was probed and, if needed, converted before transcription
+  preprocessing: jsonb("preprocessing").$type<MediaPreprocessing>(),
+  // Where speech was found when long silences were skipped; segment times are already mapped back
+  voiceActivity: jsonb("voice_activity").$type<VoiceActivity>(),
+  // Who spoke when, and the names users gave the speakers
+  diarization: jsonb("diarization").$type<Diarization>(),
+  // Audio kept for playback, on the same timeline as the segments; null when not retained
+  audioPath: text("audio_path"),
   createdAt: timestamp("created_at").default(sql`now()`).notNull(),
+}, (table) => [
+  index("transcriptions_created_at_idx").on(table.createdAt),
+  // Full-text search over the transcript; 'simple' avoids language-specific stemming
+  index("transcriptions_text_search_idx").using("gin", sql`to_tsvector('simple', ${table.transcriptionText})`),
+]);
+
+// Timed segments returned by Whisper, with times relative to the start of the original audio
+export const transcriptionSegments = pgTable("transcription_segments", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  transcriptionId: varchar("transcription_id")
+    .notNull()
+    .references(() => transcriptions.id, { onDelete: "cascade" }),
+  position: integer("position").notNull(),
+  start: real("start").notNull(),
+  end: real("end").notNull(),
+  text: text("text").notNull(),
+  avgLogprob: real("avg_logprob"),
+  speaker: text("speaker"), // id of a speaker turn in the transcription's diarization
+}, (table) => [
+  index("transcription_segments_transcription_id_idx").on(table.transcriptionId, table.position),
+]);
+
+// Outcome of each chunk of a recording that was split for transcription
+export const transcriptionChunks = pgTable("transcription_chunks", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  transcriptionId: varchar("transcription_id")
+    .notNull()
+    .references(() => transcriptions.id, { onDelete: "cascade" }),
+  position: integer("position").notNull(),
+  // Part of the original audio this chunk is responsible for, excluding any overlap
+  start: real("start").notNull(),
+  end: real("end").notNull(),
+  status: text("status").notNull(), // "done" or "failed"
+  errorCode: text("error_code"),
+  errorMessage: text("error_message"),
+  text: text("text"),
+  translatedText: text("translated_text"),
+  // Failed chunks keep their audio so they can be retried later
+  audioPath: text("audio_path"),
+  audioStart: real("audio_start").notNull(), // offset of the chunk's audio file, including overlap
+}, (table) => [
+  index("transcription_chunks_transcription_id_idx").on(table.transcriptionId, table.position),
+]);
+
+export const transcriptionsRelations = relations(transcriptions, ({ many }) => ({
+  segments: many(transcriptionSegments),
+  chunks: many(transcriptionChunks),
+}));
+
+export const transcriptionSegmentsRelations = relations(transcriptionSegments, ({ one }) => ({
+  transcription: one(transcriptions, {
+    fields: [transcriptionSegments.transcriptionId],
+    references: [transcriptions.id],
+  }),
+}));
+
+export const transcriptionChunksRelations = relations(transcriptionChunks, ({ one }) => ({
+  transcription: one(transcriptions, {
+    fields: [transcriptionChunks.transcriptionId],
+    references: [transcriptions.id],
+  }),
+}));
+
+// Properties of an audio file as reported by FFprobe (or of a converted file)
+export const mediaDescriptionSchema = z.object({
+  format: z.string().optional(), // container, e.g. "mov,mp4,m4a,3gp,3g2,mj2"
+  codec: z.string().optional(),
+  sampleRate: z.number().optional(), // Hz
+  channels: z.number().optional(),
+  bitRate: z.number().optional(), // bits per second
+  size: z.number().optional(), // bytes
 });
 
-export const insertTranscriptionSchema = createInsertSchema(transcriptions).omit({
+// Optional clean-up filters for noisy or quiet recordings, in the order they are applied
+export const audioEnhancementSchema = z.enum(["highpass", "lowpass", "denoise", "loudnorm"]);
+
+// Why an upload was converted before transcription
+export const preprocessingReasonSchema = z.enum([
+  "video", // the audio track was taken out of a video container
+  "multiple_audio_streams", // one of several audio tracks was selected
+  "unsupported_format", // the provider does not take this container or codec as-is
+  "too_large", // the file exceeds what the provider accepts in one request
+  "missing_duration", // the container does not record its length, e.g. browser recordings
+  "enhancement", // audio filters were requested for the upload
+]);
+
+export const mediaPreprocessingSchema = z.object({
+  applied: z.boolean(),
+  reasons: z.array(preprocessingReasonSchema),
+  input: mediaDescriptionSchema.optional(), // absent when the file could not be probed
+  output: mediaDescriptionSchema.optional(), // only when a conversion was applied
+  audioStream: z.number().optional(), // position of the audio stream used, when there were several
+  audioStreamCount: z.number().optional(),
+  enhancements: z.array(audioEnhancementSchema).optional(),
+  filterChain: z.string().optional(), // FFmpeg -af argument used, so the conversion can be reproduced
+});
+
+// A stretch of the original audio kept by voice activity detection
+export const speechRegionSchema = z.object({
+  start: z.number(), // seconds in the original audio
+  end: z.number(),
+  offset: z.number(), // where the region starts in the audio that was transcribed
+});
+
+export const voiceActivitySchema = z.object({
+  originalDuration: z.number(), // seconds
+  skippedSeconds: z.number(),
+  regions: z.array(speechRegionSchema),
+});
+
+// A stretch of audio attributed to one speaker; ids are "1", "2"... in order of first appearance
+export const speakerTurnSchema = z.object({
+  start: z.number(), // seconds in the original audio
+  end: z.number(),
+  speaker: z.string(),
+});
+
+export const diarizationSchema = z.object({
+  backend: z.string(),
+  turns: z.array(speakerTurnSchema),
+  names: z.record(z.string(), z.string()), // display names chosen by users, by speaker id
+});
+
+export const insertTranscriptionSchema = createInsertSchema(transcriptions, {
+  preprocessing: mediaPreprocessingSchema.nullish(),
+  voiceActivity: voiceActivitySchema.nullish(),
+  diarization: diarizationSchema.nullish(),
+}).omit({
   id: true,
   createdAt: true,
 });
 
+export const insertTranscriptionSegmentSchema = createInsertSchema(transcriptionSegments).omit({
+  id: true,
+  transcriptionId: true,
+});
+
+export const insertTranscriptionChunkSchema = createInsertSchema(transcriptionChunks).omit({
+  id: true,
+  transcriptionId: true,
+});
+
 export type InsertTranscription = z.infer<typeof insertTranscriptionSchema>;
 export type Transcription = typeof transcriptions.$inferSelect;
+export type InsertTranscriptionSegment = z.infer<typeof insertTranscriptionSegmentSchema>;
+export type TranscriptionSegment = typeof transcriptionSegments.$inferSelect;
+export type InsertTranscriptionChunk = z.infer<typeof insertTranscriptionChunkSchema>;
+export type TranscriptionChunk = typeof transcriptionChunks.$inferSelect;
 
 // Request/Response schemas
 export const uploadAudioSchema = z.object({
@@ -31,6 +184,83 @@ export const uploadAudioSchema = z.object({
   mimeType: z.string().regex(/^(audio\/(mpeg|wav|x-m4a|mp4|m4a|mp3|aac|opus|flac|ogg|webm)|application\/octet-stream)$/),
 });
 
+// Upload size limits. Video containers also carry the picture, which is dropped
+// once the audio track is extracted, so they are allowed to be much larger.
+export const MAX_AUDIO_UPLOAD_BYTES = 104857600; // 100MB - chunking handles large files
+export const MAX_VIDEO_UPLOAD_BYTES = 1073741824; // 1GB
+
+// Containers whose audio track is extracted before transcription
+export const videoFileExtensions = [".mp4", ".m4v", ".mkv", ".mov", ".avi"] as const;
+
+// Languages offered on the upload form; providers may detect others in "auto" mode
+export const transcriptionLanguages = {
+  pt: "Português",
+  en: "Inglês",
+  es: "Espanhol",
+  fr: "Francês",
+  de: "Alemão",
+  it: "Italiano",
+} as const;
+
+export const audioEnhancements = {
+  highpass: "Filtro passa-alta (remove ronco, vento e vibração)",
+  lowpass: "Filtro passa-baixa (remove chiado agudo)",
+  denoise: "Redução de ruído de fundo",
+  loudnorm: "Normalização de volume (EBU R128)",
+} as const;
+
+export const languageOptionSchema = z.enum(["auto", "pt", "en", "es", "fr", "de", "it"]);
+
+// "translate" also produces an English version of the transcript
+export const transcriptionTaskSchema = z.enum(["transcribe", "translate"]);
+
+// Form fields arrive as strings, JSON bodies as booleans
+const formBooleanSchema = z.preprocess(
+  (value) => (value === "true" ? true : value === "false" ? false : value),
+  z.boolean()
+);
+
+// Form fields sent alongside the audio file to /api/transcribe
+export const transcribeRequestSchema = z.object({
+  language: languageOptionSchema.default("pt"),
+  task: transcriptionTaskSchema.default("transcribe"),
+  // Which audio stream to use when a file has several (0-based); chosen automatically if absent
+  audioStream: z.coerce.number().int().min(0).optional(),
+  // Filters to apply before transcription; form uploads send them comma-separated
+  enhancements: z.preprocess(
+    (value) => (typeof value === "string" ? value.split(",").filter(Boolean) : value),
+    z.array(audioEnhancementSchema)
+  ).default([]),
+  // Leave long silences out of what is sent to the provider
+  skipSilence: formBooleanSchema.default(false),
+  // Label each segment with who is speaking
+  diarize: formBooleanSchema.default(false),
+});
+
+// Names for the speakers of a transcription; an empty name restores the default label
+export const renameSpeakersSchema = z.object({
+  names: z.record(z.string(), z.string().trim().max(60)),
+});
+
+export const transcriptSegmentSchema = z.object({
+  start: z.number(), // seconds
+  end: z.number(),
+  text: z.string(),
+  avgLogprob: z.number().optional(),
+  speaker: z.string().optional(),
+});
+
+export const transcriptionStatusSchema = z.enum(["complete", "partial"]);
+
+export const chunkResultSchema = z.object({
+  index: z.number(),
+  start: z.number(), // seconds in the original audio
+  end: z.number(),
+  status: z.enum(["done", "failed"]),
+  errorCode: z.string().optional(),
+  error: z.string().optional(),
+});
+
 export const transcriptionResponseSchema = z.object({
   id: z.string(),
   filename: z.string(),
@@ -40,8 +270,157 @@ export const transcriptionResponseSchema = z.object({
   confidence: z.number().optional(),
   processingTime: z.number(),
   totalChunks: z.number().optional(),
+  language: z.string().optional(),
+  translatedText: z.string().optional(),
+  translationLanguage: z.string().optional(),
+  segments: z.array(transcriptSegmentSchema).optional(),
+  status: transcriptionStatusSchema,
+  chunks: z.array(chunkResultSchema).optional(), // only for recordings that were split
+  preprocessing: mediaPreprocessingSchema.optional(),
+  // How much silence was left out, when silence skipping was requested
+  voiceActivity: voiceActivitySchema.omit({ regions: true }).optional(),
+  // Speakers found by diarization, with the name to show for each
+  speakers: z.array(z.object({ id: z.string(), name: z.string() })).optional(),
+  // Where to stream the recording from, when its audio was kept
+  audioUrl: z.string().optional(),
+  createdAt: z.string(),
+});
+
+// Empty query string values (e.g. "?search=") are treated as absent
+const optionalQueryString = z.string().trim().optional().transform((value) => value || undefined);
+
+export const listTranscriptionsQuerySchema = z.object({
+  page: z.coerce.number().int().min(1).default(1),
+  pageSize: z.coerce.number().int().min(1).max(100).default(20),
+  sort: z.enum(["asc", "desc"]).default("desc"), // by createdAt
+  filename: optionalQueryString,
+  search: optionalQueryString,
+});
+
+export const subtitleFormatSchema = z.enum(["srt", "vtt"]);
+
+export const subtitleExportQuerySchema = z.object({
+  format: subtitleFormatSchema,
+  maxCharsPerLine: z.coerce.number().int().min(10).max(100).default(42),
+  maxLinesPerCue: z.coerce.number().int().min(1).max(4).default(2),
+});
+
+export const transcriptionSummarySchema = z.object({
+  id: z.string(),
+  filename: z.string(),
+  duration: z.number().optional(),
+  wordCount: z.number(),
+  preview: z.string(),
+  status: transcriptionStatusSchema,
   createdAt: z.string(),
 });
 
+export const transcriptionListResponseSchema = z.object({
+  items: z.array(transcriptionSummarySchema),
+  total: z.number(),
+  page: z.number(),
+  pageSize: z.number(),
+});
+
+// Optional features that depend on how the server was deployed, so the client
+// only offers what will work
+export const serverConfigSchema = z.object({
+  diarization: z.boolean(), // a DIARIZATION_BACKEND is configured
+});
+
 export type UploadAudioRequest = z.infer<typeof uploadAudioSchema>;
+export type LanguageOption = z.infer<typeof languageOptionSchema>;
+export type TranscriptionTask = z.infer<typeof transcriptionTaskSchema>;
+export type TranscribeRequest = z.infer<typeof transcribeRequestSchema>;
+export type TranscriptSegment = z.infer<typeof transcriptSegmentSchema>;
+export type TranscriptionStatus = z.infer<typeof transcriptionStatusSchema>;
+export type ChunkResult = z.infer<typeof chunkResultSchema>;
+export type MediaDescription = z.infer<typeof mediaDescriptionSchema>;
+export type AudioEnhancement = z.infer<typeof audioEnhancementSchema>;
+export type PreprocessingReason = z.infer<typeof preprocessingReasonSchema>;
+export type MediaPreprocessing = z.infer<typeof mediaPreprocessingSchema>;
+export type SpeechRegion = z.infer<typeof speechRegionSchema>;
+export type VoiceActivity = z.infer<typeof voiceActivitySchema>;
+export type SpeakerTurn = z.infer<typeof speakerTurnSchema>;
+export type Diarization = z.infer<typeof diarizationSchema>;
+export type RenameSpeakers = z.infer<typeof renameSpeakersSchema>;
 export type TranscriptionResponse = z.infer<typeof transcriptionResponseSchema>;
+export type ListTranscriptionsQuery = z.infer<typeof listTranscriptionsQuerySchema>;
+export type SubtitleFormat = z.infer<typeof subtitleFormatSchema>;
+export type SubtitleExportQuery = z.infer<typeof subtitleExportQuerySchema>;
+export type TranscriptionSummary = z.infer<typeof transcriptionSummarySchema>;
+export type TranscriptionListResponse = z.infer<typeof transcriptionListResponseSchema>;
+export type ServerConfig = z.infer<typeof serverConfigSchema>;
+
+// Transcription jobs run in the background; the upload returns a job whose progress
+// the client follows over Server-Sent Events
+export const jobStateSchema = z.enum([
+  "queued",
+  "converting",
+  "detecting_speech",
+  "chunking",
+  "transcribing",
+  "diarizing",
+  "saving",
+  "done",
+  "failed",
+]);
+
+// Chunks of long recordings are transcribed in parallel; each one reports its own status
+export const chunkStatusSchema = z.enum(["pending", "transcribing", "done", "failed"]);
+
+export const jobChunkSchema = z.object({
+  index: z.number(), // 0-based position of the chunk in the recording
+  status: chunkStatusSchema,
+  error: z.string().optional(),
+  retries: z.number().optional(), // automatic retries after temporary provider failures
+});
+
+export const transcriptionJobSchema = z.object({
+  id: z.string(),
+  state: jobStateSchema,
+  filename: z.string(),
+  progress: z.number(), // 0-100, reported by the server as the pipeline advances
+  message: z.string().optional(),
+  error: z.string().optional(),
+  result: transcriptionResponseSchema.optional(),
+  chunks: z.array(jobChunkSchema).optional(), // only set when the audio was split
+  retries: z.number().optional(), // total automatic retries, for troubleshooting
+  createdAt: z.string(),
+  updatedAt: z.string(),
+});
+
+export type JobState = z.infer<typeof jobStateSchema>;
+export type ChunkStatus = z.infer<typeof chunkStatusSchema>;
+export type JobChunk = z.infer<typeof jobChunkSchema>;
+export type TranscriptionJob = z.infer<typeof transcriptionJobSchema>;
+
+// Live transcription runs over a WebSocket: the client sends a JSON "start",
+// then binary frames of 16-bit little-endian mono PCM at LIVE_SAMPLE_RATE, and
+// a JSON "stop" when done; the server answers with the messages below
+export const LIVE_TRANSCRIPTION_PATH = "/api/live";
+export const LIVE_SAMPLE_RATE = 16000;
+
+export const liveClientMessageSchema = z.discriminatedUnion("type", [
+  z.object({
+    type: z.literal("start"),
+    language: languageOptionSchema.default("pt"),
+  }),
+  z.object({ type: z.literal("stop") }),
+]);
+
+export const liveServerMessageSchema = z.discriminatedUnion("type", [
+  // The session accepts audio from now on
+  z.object({ type: z.literal("ready"), sessionId: z.string() }),
+  // Best guess for the audio not finalized yet; replaces the previous partial
+  z.object({ type: z.literal("partial"), text: z.string(), start: z.number() }),
+  // Text that will not change anymore, with times from the start of the session
+  z.object({ type: z.literal("final"), segments: z.array(transcriptSegmentSchema) }),
+  // The session was saved as a regular transcription
+  z.object({ type: z.literal("saved"), transcription: transcriptionResponseSchema }),
+  // `fatal` errors end the session; others only mean some audio was not transcribed
+  z.object({ type: z.literal("error"), message: z.string(), fatal: z.boolean() }),
+]);
+
+export type LiveClientMessage = z.infer<typeof liveClientMessageSchema>;
+export type LiveServerMessage = z.infer<typeof liveServerMessageSchema>;